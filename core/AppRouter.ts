@@ -1,31 +1,115 @@
 import express, { Router as ExpressRouter, NextFunction, Request, Response } from 'express';
-import { RouterInit, ViewMap } from './types';
+import { ControllerRegistration, LifecycleHooks, LifecycleState, LoaderContext, RouterInit, ServiceConstructor, ShutdownOptions, StreamingOptions, ViewDefinition, ViewMap } from './types';
+import { ERROR_VIEW, escapeHtml, findViewInModule, isNotFound, isRedirect, LOADER_DATA_HEADER, LOADER_DATA_ID, NOT_FOUND_VIEW, serializeLoaderData, toViewDefinition, USER_DATA_ID } from './View';
+import { ForbiddenError, HttpError, NotFoundError, ProblemDetails } from './HttpError';
+import AuthService, { getUser, hasRole } from './Auth';
+import SecurityService, { applyNonce, getNonce } from './Security';
+import movicoPlugin, { CLIENT_ENTRY_ID } from './plugin';
+import Container from './Container';
+import { DEFAULT_TEMPLATE } from './Document';
+import { injectHead, resolveHead } from './Head';
+import { AssetManifest, injectAssets } from './Assets';
+import { buildOpenAPIDocument, OpenAPIOptions, renderDocsPage, resolveOpenAPIOptions } from './OpenAPI';
+import { buildIntrospectionReport, renderIntrospectionPage, RequestLog } from './Introspection';
+import Logger from './Logger';
+import Middleware from './Middleware';
+import { requestContext } from './RequestContext';
 import Controller from './Controller';
 import { CoreController } from './CoreController';
 import ReactDOMServer from 'react-dom/server';
-import { StaticRouter } from 'react-router-dom';
+import * as runtime from './runtime';
 import { createElement } from 'react';
 import { Server } from 'http';
+import { PassThrough } from 'stream';
+import { fileURLToPath } from 'url';
+import nodePath from 'path';
+
+type RenderRuntime = typeof runtime;
+
+/**
+ * User agents that should receive fully rendered pages instead of a progressively streamed shell.
+ */
+const BOT_USER_AGENT = /bot|crawler|spider|crawling|slurp|bingpreview|facebookexternalhit|embedly|lighthouse/i;
+
+/**
+ * Path of the development dashboard; its JSON report is served at `<path>/report.json`.
+ */
+const INTROSPECTION_PATH = '/__movico';
+
+/**
+ * Paths of the liveness and readiness probes.
+ */
+const HEALTH_PATH = '/healthz';
+const READY_PATH = '/readyz';
+
+const logger = new Logger('Router');
 
 export default class AppRouter {
     private expressRouter: ExpressRouter;
 
     private coreController: CoreController;
-    private controllers: Controller[];
+    private registrations: ControllerRegistration[];
+    private controllers: Controller[] = [];
     private viewMap: ViewMap;
+    private viewSources: Record<string, string>;
+    private streaming: Required<StreamingOptions>;
+    private shutdown: Required<ShutdownOptions>;
+    private state: LifecycleState = 'starting';
+    private services: ServiceConstructor[];
+    private container: Container;
+    private openapi: OpenAPIOptions;
+    private globalMiddleware: Middleware[];
+    private requestLog = new RequestLog();
 
-    private template: string = `<!DOCTYPE html><html lang="en"><head><meta charset="UTF-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"><title>Movico App</title></head><body><div id="root"></div><script type="module" src="/main.js"></script></body></html>`;
+    /**
+     * Authenticates requests and guards routes and views, when the container provides it.
+     */
+    private auth?: AuthService;
+
+    /**
+     * Sends the security headers and issues CSRF tokens to pages. Defaults apply unless the container provides one.
+     */
+    private security!: SecurityService;
+
+    /**
+     * The configured page. In development, the generated client entry is added up front; in production,
+     * each page gets the built files its view needs, see `productionTemplate()`.
+     */
+    private template: string;
+    private dist: string;
+    private assetBase: string;
+
+    /**
+     * The manifest of the production client build, read at initialization.
+     */
+    private assets?: AssetManifest;
 
     constructor(init: RouterInit) {
         this.expressRouter = express.Router();
+        this.viewSources = init.viewSources ?? {};
+        this.template = process.env.NODE_ENV === 'development'
+            ? injectAssets(init.template ?? DEFAULT_TEMPLATE, { scripts: [CLIENT_ENTRY_ID] })
+            : init.template ?? DEFAULT_TEMPLATE;
+        this.dist = init.dist ?? nodePath.resolve(process.cwd(), 'dist');
         this.coreController = new CoreController(
             this.expressRouter,
             this.template,
-            init.customVDSConfig
+            {
+                ...init.customVDSConfig,
+                plugins: [...(init.customVDSConfig?.plugins ?? []), movicoPlugin(this.viewSources)],
+            },
+            this.dist
         );
+        this.assetBase = init.customVDSConfig?.base ?? '/';
 
-        this.controllers = init.controllers;
+        this.registrations = init.controllers;
         this.viewMap = init.viewMap;
+        this.streaming = { enabled: true, timeout: 10000, ...init.streaming };
+        this.shutdown = { delay: 0, timeout: 10000, ...init.shutdown };
+        this.services = init.services ?? [];
+        this.container = init.container ?? new Container();
+        this.openapi = init.openapi ?? {};
+        this.globalMiddleware = init.middleware ?? [];
     }
 
     /**
@@ -33,48 +117,458 @@ export default class AppRouter {
      */
     public getRouter(): ExpressRouter { return this.expressRouter }
 
+    /**
+     * Returns where the application is in its lifecycle.
+     */
+    public getState(): LifecycleState { return this.state }
+
+    /**
+     * Context handed to view loaders, scoped to the request being rendered.
+     */
+    private loaderContext(req: Request): LoaderContext {
+        return { service: (ServiceClass) => this.container.resolve(ServiceClass, req), user: getUser(req) };
+    }
+
+    /**
+     * Registers services in the container, validates the dependency graph of services and controllers,
+     * and loads the persisted properties of singleton services.
+     *
+     * @throws If a dependency is missing, a cycle exists, a singleton depends on a request-scoped service,
+     * or stored properties cannot be loaded.
+     */
+    private async registerServices() {
+        for (const ServiceClass of this.services) this.container.register(ServiceClass);
+        if (!this.container.has(SecurityService)) this.container.provide(SecurityService, new SecurityService());
+        this.security = this.container.resolve(SecurityService);
+
+        this.container.validate(this.registrations.map(({ ControllerClass, service }) => ({
+            name: ControllerClass.name,
+            inject: [...(ControllerClass.inject ?? []), ...(service ? [service] : [])],
+        })));
+
+        for (const ServiceClass of this.container.registered()) {
+            const dependencies = ServiceClass.inject?.map(({ name }) => name).join(', ') || 'none';
+            logger.debug(`Service ${ServiceClass.name} (${this.container.lifetimeOf(ServiceClass)}) <- ${dependencies}`);
+        }
+
+        // Overrides are used as given, e.g. test fakes, and never read from or written to persistence
+        const singletons = this.container.registered().filter((ServiceClass) => this.container.lifetimeOf(ServiceClass) === 'singleton' && !this.container.isOverridden(ServiceClass));
+        await Promise.all(singletons.map((ServiceClass) => this.container.resolve(ServiceClass).load()));
+    }
+
+    /**
+     * Sets up the global middleware and mounts it ahead of every route.
+     *
+     * @returns The resolved global chain.
+     */
+    private async registerMiddleware(): Promise<Middleware[]> {
+        const chain = Middleware.resolve(this.globalMiddleware);
+        await Promise.all(chain.map((entry) => entry.prepare()));
+        for (const entry of chain) this.expressRouter.use(entry.toHandler());
+
+        logger.debug(`Global middleware: ${Middleware.describe(chain)}`);
+        return chain;
+    }
+
+    /**
+     * Registers the health endpoints ahead of everything else, so probes skip the global middleware and
+     * the access log. `/healthz` answers 200 while the process serves requests; `/readyz` answers 200 once
+     * the application is ready, and 503 while it starts or shuts down. While draining, every response
+     * closes its connection, so keep-alive clients reconnect elsewhere.
+     */
+    private registerHealthChecks() {
+        this.expressRouter.use((req, res, next) => {
+            if (this.state === 'draining') res.set('Connection', 'close');
+            next();
+        });
+        this.expressRouter.get(HEALTH_PATH, (req, res) => {
+            res.set('Cache-Control', 'no-store').json({ status: 'ok', state: this.state });
+        });
+        this.expressRouter.get(READY_PATH, (req, res) => {
+            const ready = this.state === 'ready';
+            res.status(ready ? 200 : 503).set('Cache-Control', 'no-store').json({ status: ready ? 'ok' : 'unavailable', state: this.state });
+        });
+    }
+
+    /**
+     * Authenticates every request with the configured strategies, so routes, loaders and views see the user.
+     */
+    private registerAuthentication() {
+        this.auth = this.container.has(AuthService) ? this.container.resolve(AuthService) : undefined;
+        if (!this.auth?.enabled) return;
+
+        this.expressRouter.use(this.auth.middleware());
+        logger.debug(`Authentication registered, login view: ${this.auth.loginView}`);
+    }
+
+    /**
+     * Returns the roles a view requires the user to have one of: an empty list when any authenticated user
+     * may see it, or `undefined` when it is public.
+     */
+    private viewAccess({ auth, roles = [] }: ViewDefinition): string[] | undefined {
+        return (auth ?? roles.length > 0) ? roles : undefined;
+    }
+
+    /**
+     * Makes sure every route and view requiring a user can get one.
+     *
+     * @throws If routes or views require authentication but no strategy is configured, or the login view does.
+     */
+    private checkAuth() {
+        const guarded = [
+            ...this.controllers.flatMap((controller) => controller.declaredRoutes()
+                .filter((route) => controller.accessOf(route))
+                .map(({ method, path }) => `${method.toUpperCase()} ${path}`)),
+            ...Object.entries(this.viewMap).filter(([, entry]) => this.viewAccess(toViewDefinition(entry))).map(([path]) => path),
+        ];
+        if (guarded.length && !this.auth?.enabled) {
+            throw new Error(`[Router]: ${guarded.join(', ')} require authentication, but no auth strategy is configured`);
+        }
+
+        const loginView = this.auth && this.viewMap[this.auth.loginView];
+        if (loginView && this.viewAccess(toViewDefinition(loginView))) {
+            throw new Error(`[Router]: The login view ${this.auth!.loginView} cannot require authentication`);
+        }
+    }
+
+    /**
+     * Runs a lifecycle hook on every singleton service, in creation order so dependencies come first, then
+     * on every controller. `onShutdown` runs in the reverse order, and its failures are logged instead of
+     * stopping the other hooks.
+     *
+     * @throws If an `onInit` or `onReady` hook fails.
+     */
+    private async runHooks(hook: keyof LifecycleHooks) {
+        for (const ServiceClass of this.container.registered()) {
+            if (this.container.lifetimeOf(ServiceClass) === 'singleton') this.container.resolve(ServiceClass);
+        }
+        const targets: LifecycleHooks[] = [...this.container.instances(), ...this.controllers];
+        if (hook === 'onShutdown') targets.reverse();
+
+        for (const target of targets) {
+            if (!target[hook]) continue;
+            if (hook !== 'onShutdown') {
+                await target[hook]!();
+                continue;
+            }
+            try {
+                await target[hook]!();
+            } catch (error) {
+                logger.error(`${hook} of ${target.constructor.name} failed`, error);
+            }
+        }
+    }
+
+    /**
+     * Reads the manifest of the production client build. Without one, pages are rendered but not hydrated.
+     */
+    private async loadAssets() {
+        this.assets = await AssetManifest.read(this.dist, this.assetBase);
+        if (!this.assets && process.env.NODE_ENV === 'production') {
+            logger.warn(`No client build found in ${this.dist}, pages will not be hydrated. Run the build first.`);
+        }
+    }
+
+    /**
+     * Returns the production page of a view, with the entry script, stylesheets and modulepreload hints
+     * of its chunks. Without a view, the page only gets the entry's files, e.g. for error pages.
+     */
+    private productionTemplate(path?: string): string {
+        return this.assets ? injectAssets(this.template, this.assets.assetsFor(path && this.viewSources[path])) : this.template;
+    }
+
     /**
      * Registers CoreController for production or development serving.
      */
-    private async registerServing() {
-        try { await this.coreController.register() }
-        catch (error) { console.error('[Router]: Failed to register CoreController:', error) }
+    private async registerServing(globalMiddleware: Middleware[]) {
+        try { await this.coreController.register(globalMiddleware) }
+        catch (error) { logger.error('Failed to register CoreController', error) }
     }
 
     /**
-     * Registers API controllers and their routes.
+     * Creates the API controllers and registers their routes.
+     * A controller receives its paired service unless that service is request-scoped;
+     * request-scoped services are resolved per request with `resolve()`.
+     *
+     * @throws If any controller fails to register, once every other controller has been registered.
      */
-    private async registerControllers() {
-        try {
-            for (const controller of this.controllers) {
-                await controller.register();
-                console.log(`[Router]: Registered API controller`);
+    private async registerControllers(globalMiddleware: Middleware[]) {
+        for (const { ControllerClass, service } of this.registrations) {
+            const shared = service && this.container.lifetimeOf(service) !== 'request';
+            this.controllers.push(new ControllerClass({
+                router: this.expressRouter,
+                container: this.container,
+                service: shared ? this.container.resolve(service) : undefined,
+            }));
+        }
+
+        const failures: string[] = [];
+        for (const controller of this.controllers) {
+            const { name } = controller.constructor;
+            try {
+                await controller.register(globalMiddleware);
+                logger.debug(`Registered API controller ${name}`);
+            } catch (error) {
+                logger.error(`Failed to register API controller ${name}`, error);
+                failures.push(`${name}: ${error instanceof Error ? error.message : String(error)}`);
             }
         }
 
-        catch (error) { console.error('[Router]: Failed to register controllers:', error) }
+        if (failures.length) throw new Error(`[Router]: Failed to register controllers; ${failures.join('; ')}`);
     }
 
     /**
-     * Registers React components for view rendering based on the View Map.
+     * Serves the OpenAPI document of the registered routes as JSON, and a docs page rendering it.
      */
-    private registerViews() {
-        if (process.env.NODE_ENV === 'development') {
-            console.log(`[Router]: Skipping view rendering in development mode (Vite handles it).`);
+    private async registerDocs() {
+        const { path = '/api-docs' } = this.openapi;
+        if (path === false) return;
+
+        const routes = this.controllers.flatMap((controller) => controller.getRegisteredRoutes().map((route) => ({ controller: controller.constructor.name, route, roles: controller.accessOf(route) })));
+        const document = buildOpenAPIDocument(routes, await resolveOpenAPIOptions(this.openapi));
+        const specPath = `${path.replace(/\/$/, '')}/openapi.json`;
+
+        this.expressRouter.get(specPath, (req, res) => { res.json(document) });
+        this.expressRouter.get(path, (req, res) => { res.type('html').send(renderDocsPage(document, specPath)) });
+        logger.info(`OpenAPI document for ${routes.length} route(s) served at ${specPath}, docs at ${path}`);
+    }
+
+    /**
+     * Serves the development dashboard and its JSON report: every controller with its registered and skipped
+     * routes, the views, the `VDS` status and the recent requests.
+     */
+    private registerIntrospection() {
+        const jsonPath = `${INTROSPECTION_PATH}/report.json`;
+        const report = () => buildIntrospectionReport({
+            controllers: this.controllers.map((controller) => ({ name: controller.constructor.name, routes: controller.getRouteReports() })),
+            core: { name: this.coreController.constructor.name, routes: this.coreController.getRouteReports() },
+            views: Object.entries(this.viewMap).map(([path, entry]) => ({
+                path,
+                streaming: toViewDefinition(entry).stream ?? this.streaming.enabled,
+                source: this.viewSources[path] && nodePath.relative(process.cwd(), this.viewSources[path]),
+                reserved: path === NOT_FOUND_VIEW || path === ERROR_VIEW,
+            })),
+            vds: this.coreController.getVDS().getStatus(),
+            requests: this.requestLog.getRequests(),
+        });
+
+        this.expressRouter.get(jsonPath, (req, res) => { res.json(report()) });
+        this.expressRouter.get(INTROSPECTION_PATH, (req, res) => { res.type('html').send(renderIntrospectionPage(report(), jsonPath)) });
+        logger.info(`Development dashboard served at ${INTROSPECTION_PATH}`);
+    }
+
+    /**
+     * Splits an HTML template around the root container, so rendered markup can be streamed between the two halves.
+     */
+    private splitTemplate(template: string): [string, string] {
+        const marker = '<div id="root"></div>';
+        const index = template.indexOf(marker);
+        if (index === -1) throw new Error(`[Router]: HTML template is missing the root container: ${marker}`);
+        return [template.slice(0, index) + '<div id="root">', '</div>' + template.slice(index + marker.length)];
+    }
+
+    /**
+     * Renders a view into the page template and sends it.
+     *
+     * Streaming views are rendered with `renderToPipeableStream`: browsers receive the shell as soon as it is
+     * ready and suspended chunks as they resolve, while bots wait for `onAllReady` to get the complete page.
+     * The render is aborted when the client disconnects or after `StreamingOptions.timeout`; aborted Suspense
+     * boundaries fall back to client rendering. Other views are rendered with `renderToString`.
+     *
+     * The loader data is passed to the component as its `data` prop, provided to `useLoaderData()` and embedded
+     * in the page as escaped JSON for the client to hydrate from. So is the authenticated user, for `useUser()`.
+     * The CSRF token of the page is provided to `useCsrfToken()`, and React's inline streaming scripts get
+     * the CSP nonce.
+     *
+     * Pages are sent with `Cache-Control: no-cache`. Those rendered with `renderToString` also get an ETag, so
+     * browsers revalidating an unchanged page are answered with a 304; with a Content Security Policy, the
+     * nonce makes every page unique.
+     *
+     * @param renderRuntime - The router and data context instances the view's modules see (see `core/runtime`).
+     * @returns A Promise that resolves once the response is complete and rejects if the shell fails to render.
+     */
+    private sendView(view: ViewDefinition, template: string, req: Request, res: Response, data: unknown, renderRuntime: RenderRuntime): Promise<void> {
+        const [head, rootTail] = this.splitTemplate(template);
+        const user = getUser(req) ?? null;
+        const scripts = [
+            ...(data === undefined ? [] : [`<script id="${LOADER_DATA_ID}" type="application/json">${serializeLoaderData(data)}</script>`]),
+            ...(user ? [`<script id="${USER_DATA_ID}" type="application/json">${serializeLoaderData(user)}</script>`] : []),
+        ];
+        const tail = rootTail.replace('</div>', () => `</div>${scripts.join('')}`);
+        const element = createElement(
+            renderRuntime.UserContext.Provider,
+            { value: user },
+            createElement(
+                renderRuntime.CsrfTokenContext.Provider,
+                { value: this.security.csrfToken(req, res) ?? null },
+                createElement(
+                    renderRuntime.LoaderDataContext.Provider,
+                    { value: data },
+                    createElement(renderRuntime.StaticRouter, { location: req.url }, createElement(view.component, { data }))
+                )
+            )
+        );
+
+        if (!(view.stream ?? this.streaming.enabled)) {
+            const HTML = ReactDOMServer.renderToString(element);
+            res.status(200).set({ 'Content-Type': 'text/html', 'Cache-Control': 'no-cache' }).send(`${head}${HTML}${tail}`);
+            return Promise.resolve();
+        }
+
+        return new Promise((resolve, reject) => {
+            const waitForAll = BOT_USER_AGENT.test(req.get('user-agent') ?? '');
+            let didError = false;
+
+            const send = () => {
+                res.status(didError ? 500 : 200).set({ 'Content-Type': 'text/html', 'Cache-Control': 'no-cache' });
+                res.write(head);
+
+                const body = new PassThrough();
+                body.pipe(res, { end: false });
+                body.on('end', () => {
+                    clearTimeout(timer);
+                    res.end(tail);
+                    resolve();
+                });
+                stream.pipe(body);
+            };
+
+            const stream = ReactDOMServer.renderToPipeableStream(element, {
+                nonce: getNonce(req),
+                onShellReady() { if (!waitForAll) send() },
+                onAllReady() { if (waitForAll) send() },
+                onShellError(error) {
+                    clearTimeout(timer);
+                    reject(error);
+                },
+                onError(error) {
+                    didError = true;
+                    logger.error(`Error while streaming ${req.url}`, error);
+                },
+            });
+
+            const timer = setTimeout(() => stream.abort(new Error(`Render timed out after ${this.streaming.timeout}ms`)), this.streaming.timeout);
+
+            res.on('close', () => {
+                if (res.writableFinished) return;
+                clearTimeout(timer);
+                stream.abort(new Error('Client disconnected'));
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Enforces the view's `auth` and `roles`, then runs its loader and renders it with the result.
+     * Anonymous requests for a view requiring a user are redirected to the login view, with the original
+     * URL in the `next` query parameter; users without one of its roles get a `ForbiddenError`. A view
+     * requiring a user without an auth strategy configured fails like it does at startup.
+     * Redirect results are answered directly without rendering; not-found results raise a `NotFoundError`
+     * for the application error handler.
+     *
+     * Requests carrying the `LOADER_DATA_HEADER` (client-side navigation) are answered with the
+     * loader result as JSON: `{ data }` or `{ redirect }`. Otherwise the view's head is rendered into
+     * the template for the result, and the page gets the CSRF token and the CSP nonce.
+     */
+    private async serveView(view: ViewDefinition, template: string, req: Request, res: Response, renderRuntime: RenderRuntime = runtime): Promise<void> {
+        const dataRequest = Boolean(req.get(LOADER_DATA_HEADER));
+        res.vary(LOADER_DATA_HEADER);
+
+        const roles = this.viewAccess(view);
+        const user = getUser(req);
+        if (roles && !user) {
+            // Views loaded from source in development are not known to checkAuth() at startup
+            if (!this.auth?.enabled) throw new Error(`[Router]: ${req.path} requires authentication, but no auth strategy is configured`);
+
+            const location = `${this.auth.loginView}?next=${encodeURIComponent(req.originalUrl)}`;
+            if (dataRequest) res.json({ redirect: location });
+            else res.redirect(302, location);
+            return;
+        }
+        if (roles && !hasRole(user!, roles)) throw new ForbiddenError(`Requires one of the roles: ${roles.join(', ')}`);
+
+        const result = view.loader ? await view.loader(req, this.loaderContext(req)) : undefined;
+
+        if (isRedirect(result)) {
+            if (dataRequest) res.json({ redirect: result.location });
+            else res.redirect(result.status, result.location);
             return;
         }
-    
-        for (const [path, Component] of Object.entries(this.viewMap)) {
-            console.log(`[Router]: Registering view for path: ${path}`);
-            this.expressRouter.get(path, (req: Request, res: Response, next: NextFunction) => {
+
+        if (isNotFound(result)) throw new NotFoundError(`No page found at ${req.path}`);
+
+        if (dataRequest) {
+            res.json({ data: result ?? null });
+            return;
+        }
+
+        const page = this.security.securePage(injectHead(template, resolveHead(view, result)), req, res);
+        await this.sendView(view, page, req, res, result, renderRuntime);
+    }
+
+    /**
+     * Builds the development error overlay page for a failed render.
+     *
+     * @param error - The render error, with its stack already source-mapped by `VDS.errorVDS()`.
+     * @param path - The view path that failed.
+     */
+    private renderErrorOverlay(error: Error, path: string): string {
+        return `<!DOCTYPE html><html lang="en"><head><meta charset="UTF-8"><title>Render error - Movico App</title>`
+            + `<style>body{margin:0;padding:32px;background:#181818;color:#e8e8e8;font-family:ui-monospace,Menlo,Consolas,monospace}`
+            + `h1{color:#ff5555;font-size:18px}h2{color:#aaa;font-size:14px;font-weight:normal}`
+            + `pre{background:#222;padding:16px;border-left:4px solid #ff5555;overflow:auto;white-space:pre-wrap}</style>`
+            + `<script type="module" src="/@vite/client"></script></head><body>`
+            + `<h1>${escapeHtml(error.name)}: ${escapeHtml(error.message)}</h1>`
+            + `<h2>While rendering view <code>${escapeHtml(path)}</code>. Fix the error and save to reload.</h2>`
+            + `<pre>${escapeHtml(error.stack ?? String(error))}</pre></body></html>`;
+    }
+
+    /**
+     * Renders a view in development mode.
+     *
+     * The view module is loaded through the `VDS` SSR pipeline on every request so edits show up without
+     * a restart, and the page is run through Vite's HTML transforms for HMR. Render errors get their stack
+     * source-mapped by `VDS.errorVDS()` and are answered with an error overlay page; `HttpError`s raised on
+     * purpose go to the application error handler.
+     */
+    private async renderDevelopmentView(path: string, req: Request, res: Response, next: NextFunction) {
+        const VDS = this.coreController.getVDS();
+        try {
+            const source = this.viewSources[path];
+            const view = (source && findViewInModule(await VDS.loadModule(source), path)) || toViewDefinition(this.viewMap[path]);
+            const renderRuntime = await VDS.loadModule(fileURLToPath(new URL('./runtime.ts', import.meta.url))) as RenderRuntime;
+
+            await this.serveView(view, await VDS.transformTemplate(req.originalUrl), req, res, renderRuntime);
+        } catch (error) {
+            if (error instanceof HttpError) return next(error);
+
+            const renderError = error instanceof Error ? error : new Error(String(error));
+            await VDS.errorVDS(renderError).catch(() => { });
+            logger.error(`Error rendering view for path ${path}`, renderError);
+            if (!res.headersSent) res.status(500).set({ 'Content-Type': 'text/html' }).end(this.renderErrorOverlay(renderError, path));
+        }
+    }
+
+    /**
+     * Registers React components for view rendering based on the View Map.
+     * In development, views are rendered through the `VDS` SSR pipeline.
+     * The `NOT_FOUND_VIEW` and `ERROR_VIEW` paths are reserved for error pages and not routed.
+     */
+    private registerViews() {
+        const development = process.env.NODE_ENV === 'development';
+
+        for (const [path, entry] of Object.entries(this.viewMap)) {
+            if (path === NOT_FOUND_VIEW || path === ERROR_VIEW) continue;
+
+            const view = toViewDefinition(entry);
+            logger.debug(`Registering view for path: ${path} (Streaming: ${view.stream ?? this.streaming.enabled})`);
+            this.expressRouter.get(path, async (req: Request, res: Response, next: NextFunction) => {
+                if (development) return this.renderDevelopmentView(path, req, res, next);
+
                 try {
-                    const HTML = ReactDOMServer.renderToString(
-                        createElement(StaticRouter, { location: req.url }, createElement(Component))
-                    );
-                    const page = `<!DOCTYPE html><html lang="en"><head><meta charset="UTF-8"><title>Movico App</title></head><body><div id="root">${HTML}</div><script type="module" src="/main.js"></script></body></html>`;
-                    res.status(200).send(page);
+                    await this.serveView(view, this.productionTemplate(path), req, res);
                 } catch (error) {
-                    console.error(`[Router]: Error rendering view for path ${path}:`, error);
+                    if (!(error instanceof HttpError)) logger.error(`Error rendering view for path ${path}`, error);
                     next(error);
                 }
             });
@@ -85,55 +579,200 @@ export default class AppRouter {
      * Registers a fallback route for unmatched paths.
      */
     private registerFallback() {
-        this.expressRouter.use((req: Request, res: Response) => {
-            res.status(404).send(`<!DOCTYPE html><html lang="en"><head><title>404 - Not Found</title></head><body><h1>404 - Page Not Found</h1></body></html>`);
+        this.expressRouter.use((req: Request, _: Response, next: NextFunction) => {
+            next(new NotFoundError(`No route matches ${req.method} ${req.path}`));
         });
     }
 
     /**
-     * Initializes all routes: API routes, CoreController, views, and fallback.
+     * Renders the error page for a page request: the `NOT_FOUND_VIEW` for 404s, the `ERROR_VIEW` otherwise,
+     * or a minimal built-in page when the View Map has neither. The view receives the problem details as `data`,
+     * and so does its `head`.
+     */
+    private async renderErrorPage(error: HttpError, problem: ProblemDetails, req: Request): Promise<string> {
+        const entry = (error.status === 404 && this.viewMap[NOT_FOUND_VIEW]) || this.viewMap[ERROR_VIEW];
+        if (!entry) {
+            const stack = typeof problem.stack === 'string' ? `<pre>${escapeHtml(problem.stack)}</pre>` : '';
+            return `<!DOCTYPE html><html lang="en"><head><meta charset="UTF-8"><title>${problem.status} - ${escapeHtml(problem.title)}</title></head>`
+                + `<body><h1>${problem.status} - ${escapeHtml(problem.title)}</h1><p>${escapeHtml(problem.detail ?? '')}</p>${stack}</body></html>`;
+        }
+
+        const view = toViewDefinition(entry);
+        const HTML = ReactDOMServer.renderToString(
+            createElement(
+                runtime.UserContext.Provider,
+                { value: getUser(req) ?? null },
+                createElement(runtime.StaticRouter, { location: req.url }, createElement(view.component, { data: problem }))
+            )
+        );
+
+        const template = process.env.NODE_ENV === 'development'
+            ? await this.coreController.getVDS().transformTemplate(req.originalUrl)
+            : this.productionTemplate();
+        const [head, tail] = this.splitTemplate(applyNonce(injectHead(template, resolveHead(view, problem)), getNonce(req)));
+        return `${head}${HTML}${tail}`;
+    }
+
+    /**
+     * Registers the application error handler.
+     *
+     * Every error raised by middleware, controllers, loaders and the fallback ends up here and is
+     * normalized into an `HttpError`. Page requests (preferring HTML) get the error or 404 view;
+     * everyone else gets `application/problem+json`. Stack traces are only included outside production,
+     * and 5xx messages are replaced by the generic title in production.
+     */
+    private registerErrorHandler() {
+        this.expressRouter.use(async (error: unknown, req: Request, res: Response, next: NextFunction) => {
+            if (res.headersSent) return next(error);
+
+            const httpError = HttpError.from(error);
+            const production = process.env.NODE_ENV === 'production';
+            if (httpError.status >= 500) logger.error(`Unhandled error for ${req.method} ${req.originalUrl}`, error);
+
+            const problem = httpError.toProblem(req.originalUrl, !production);
+            const pageRequest = req.accepts(['application/problem+json', 'application/json', 'html']) === 'html'
+                && !req.get(LOADER_DATA_HEADER);
+
+            try {
+                if (pageRequest) {
+                    res.status(httpError.status).set({ 'Content-Type': 'text/html' }).end(await this.renderErrorPage(httpError, problem, req));
+                    return;
+                }
+                res.status(httpError.status).set({ 'Content-Type': 'application/problem+json' }).end(JSON.stringify(problem));
+            } catch (renderError) {
+                logger.error(`Failed to render the error page`, renderError);
+                res.status(httpError.status).set({ 'Content-Type': 'text/plain' }).end(`${problem.status} - ${problem.title}`);
+            }
+        });
+    }
+
+    /**
+     * Validates the service graph, then initializes all routes: global middleware, API routes, API docs, views, CoreController, fallback and error handler.
+     * Views are registered before CoreController so its `*` catch-all does not shadow them.
+     * The health endpoints come first; every other request gets an ID and an access log line ahead of everything
+     * else, then the security headers, then is authenticated. In development, requests are also recorded for the dashboard, which is served
+     * after the API docs. Once everything is registered, the `onInit` hooks run.
+     *
+     * @throws If a controller fails to register, routes or views require authentication without a strategy
+     * configured, or an `onInit` hook fails.
      */
     public async initialize() {
-        console.log('[AppRouter]: Initializing controllers and views...');
-        await this.registerControllers();
-        console.log('[AppRouter]: Controllers registered.');
-        await this.registerServing();
-        console.log('[AppRouter]: CoreController registered.');
+        const development = process.env.NODE_ENV === 'development';
+
+        logger.debug('Initializing controllers and views...');
+        await this.registerServices();
+        logger.debug('Services registered.');
+        this.registerHealthChecks();
+        this.expressRouter.use(requestContext());
+        if (development) this.expressRouter.use(this.requestLog.middleware());
+        this.expressRouter.use(this.security.headers());
+        this.registerAuthentication();
+        const globalMiddleware = await this.registerMiddleware();
+        logger.debug('Global middleware registered.');
+        await this.registerControllers(globalMiddleware);
+        logger.debug('Controllers registered.');
+        this.checkAuth();
+        await this.registerDocs();
+        logger.debug('API docs registered.');
+        if (development) {
+            this.registerIntrospection();
+            logger.debug('Development dashboard registered.');
+        }
+        if (!development) await this.loadAssets();
         this.registerViews();
-        console.log('[AppRouter]: Views registered.');
+        logger.debug('Views registered.');
+        await this.registerServing(globalMiddleware);
+        logger.debug('CoreController registered.');
         this.registerFallback();
-        console.log('[AppRouter]: Fallback registered.');
+        logger.debug('Fallback registered.');
+        this.registerErrorHandler();
+        logger.debug('Error handler registered.');
+        await this.runHooks('onInit');
+        logger.debug('onInit hooks completed.');
+    }
+
+    /**
+     * Runs the `onReady` hooks and reports the application ready. Called once the server accepts requests.
+     */
+    public async ready() {
+        await this.runHooks('onReady');
+        this.state = 'ready';
+        logger.info(`Application is ready.`);
+    }
+
+    /**
+     * Ends the connections of every channel, which would otherwise keep the server from draining.
+     */
+    private closeChannels() {
+        for (const controller of this.controllers) controller.closeChannels();
+    }
+
+    /**
+     * Releases what the router holds without touching the process: closes the channels, runs the
+     * `onShutdown` hooks, flushes service properties and shuts down the VDS if a request started it.
+     * Later calls do nothing.
+     */
+    public async close() {
+        if (this.state === 'stopped') return;
+        this.state = 'draining';
+
+        this.closeChannels();
+        await this.runHooks('onShutdown');
+
+        logger.info(`Flushing service properties...`);
+        await Promise.all(this.container.instances().map((service) => service.flush()));
+
+        logger.info(`Shutting down VDS...`);
+        await this.coreController.getVDS().shutdownVDS();
+        this.state = 'stopped';
     }
 
-    private shuttingDown = false;
+    /**
+     * Stops accepting connections and waits for in-flight requests. Idle keep-alive connections are closed
+     * right away and busy ones once their response is sent; those still open after `ShutdownOptions.timeout`
+     * are closed forcibly.
+     */
+    private drain(server: Server): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                logger.warn(`Connections still open after ${this.shutdown.timeout}ms, closing them.`);
+                server.closeAllConnections();
+            }, this.shutdown.timeout);
+
+            server.close((error) => {
+                clearTimeout(timer);
+                if (error) reject(error);
+                else resolve();
+            });
+            server.closeIdleConnections();
+        });
+    }
 
+    /**
+     * Returns the signal handler shutting the application down: the readiness probe fails, and after
+     * `ShutdownOptions.delay` the channels close and connections drain, then `close()` runs and the process exits.
+     */
     public async handleShutdown(server: Server) {
         return async () => {
-            if (this.shuttingDown) {
-                console.log(`[Router]: Shutdown already in progress.`);
+            if (this.state === 'draining' || this.state === 'stopped') {
+                logger.info(`Shutdown already in progress.`);
                 return;
             }
-            this.shuttingDown = true;
+            this.state = 'draining';
 
-            console.log(`[Router]: Shutdown handler triggered.`);
-            server.close(async (error) => {
-                if (error) {
-                    console.error(`[Router]: Error during server shutdown: ${error.message}`);
-                    process.exit(1);
-                }
-
-                try {
-                    if (process.env.NODE_ENV === 'development') {
-                        console.log(`[Router]: Shutting down VDS...`);
-                        await this.coreController.getVDS().shutdownVDS();
-                    }
-                    console.log(`[Router]: Server shut down gracefully.`);
-                    process.exit(0);
-                } catch (shutdownError) {
-                    console.error(`[Router]: Error shutting down ViteDevServer:`, shutdownError);
-                    process.exit(1);
-                }
-            });
+            logger.info(`Shutdown handler triggered.`);
+            try {
+                if (this.shutdown.delay) await new Promise((resolve) => setTimeout(resolve, this.shutdown.delay));
+                logger.info(`Closing channels and draining connections...`);
+                this.closeChannels();
+                await this.drain(server);
+                await this.close();
+                logger.info(`Server shut down gracefully.`);
+                process.exit(0);
+            } catch (error) {
+                logger.error(`Error during shutdown`, error);
+                process.exit(1);
+            }
         };
     }
 
@@ -1,39 +1,176 @@
 import app, { RequestHandler } from 'express';
-import { Environment, MovicoApplication, ViewMap } from "./types";
-import Controller from './Controller';
+import { once } from 'events';
+import { ControllerConstructor, ControllerRegistration, Environment, MovicoApplication, ServiceConstructor, StreamingOptions, ViewMap } from "./types";
+import Container from './Container';
+import ConfigService, { ConfigOptions, loadConfig, ResolvedConfig } from './Config';
+import AuthService from './Auth';
+import SecurityService from './Security';
+import Logger from './Logger';
+import Middleware from './Middleware';
 import AppRouter from './AppRouter';
+import { handleUpgrade } from './Channel';
+import Discovery from './Discovery';
 import { InlineConfig } from 'vite';
-import { testView } from '@views/test';
+import { OpenAPIOptions } from './OpenAPI';
 
+const logger = new Logger('Application');
 
 export default class Application {
     private application: MovicoApplication = app();
 
-    private controllers: Controller[] = [];
-    private viewMap: ViewMap = testView;
+    private controllers: ControllerRegistration[] = [];
+    private viewMap: ViewMap = {};
+    private viewSources: Record<string, string> = {};
+    private services: ServiceConstructor[] = [];
+    private container = new Container();
+    private middleware: Middleware[];
 
-    private router: AppRouter;
+    /**
+     * Settings taking precedence over `movico.config.ts`.
+     */
+    private overrides: ConfigOptions;
+    private config?: ResolvedConfig;
 
-    constructor(handlers: RequestHandler[] = [], customVDSConfig?: InlineConfig) {
-        this.router = new AppRouter({ viewMap: this.viewMap, controllers: this.controllers, customVDSConfig });
-        for (const handler of handlers) this.application.use(handler);
+    private router?: AppRouter;
+
+    /**
+     * @param handlers - Global middleware, run before every route and view. Plain Express handlers are wrapped with `Middleware.from`.
+     * @param customVDSConfig - Optional custom Vite configuration for the development server. Takes precedence over `vite` in `movico.config.ts`.
+     * @param streaming - Streaming SSR options. Take precedence over `movico.config.ts`.
+     * @param openapi - Options of the generated OpenAPI document and docs page. Take precedence over `movico.config.ts`.
+     */
+    constructor(handlers: (RequestHandler | Middleware)[] = [], customVDSConfig?: InlineConfig, streaming?: StreamingOptions, openapi?: OpenAPIOptions) {
+        this.middleware = handlers.map((handler) => handler instanceof Middleware ? handler : Middleware.from(handler));
+        this.overrides = { vite: customVDSConfig, streaming, openapi };
+    }
+
+    /**
+     * Returns the dependency injection container, e.g. to override a service before `start()`.
+     */
+    public getContainer(): Container { return this.container }
+
+    /**
+     * Returns the resolved configuration, once `build()` has loaded it.
+     */
+    public getConfig(): ResolvedConfig | undefined { return this.config }
+
+    /**
+     * Sets configuration taking precedence over `movico.config.ts`, e.g. in tests.
+     *
+     * @throws If called after `build()`.
+     */
+    public configure(options: ConfigOptions) {
+        if (this.built) throw new Error('[Application]: Cannot configure after the application was built.');
+        this.overrides = { ...this.overrides, ...options };
+    }
+
+    /**
+     * Discovers services, controllers and views in the project folders and hands them to the router.
+     *
+     * @throws If discovery reports conflicts.
+     */
+    private async discover() {
+        const { controllers, services, viewMap, viewSources } = await new Discovery().discover();
+        this.services.push(...services);
+        this.controllers.push(...controllers);
+        Object.assign(this.viewMap, viewMap);
+        Object.assign(this.viewSources, viewSources);
+    }
+
+    /**
+     * Adds services, controllers and views next to (or, with `build({ discover: false })`, instead of)
+     * the discovered ones. Controllers are paired with the service of the same base name, as in discovery.
+     *
+     * @throws If called after `build()`.
+     */
+    public register({ services = [], controllers = [], viewMap = {} }: { services?: ServiceConstructor[]; controllers?: ControllerConstructor[]; viewMap?: ViewMap }) {
+        if (this.built) throw new Error('[Application]: Cannot register after the application was built.');
+
+        this.services.push(...services);
+        this.controllers.push(...controllers.map((ControllerClass) => ({
+            ControllerClass,
+            service: services.find(({ name }) => name === ControllerClass.name.replace(/Controller$/, 'Service')),
+        })));
+        Object.assign(this.viewMap, viewMap);
     }
 
-    private getEnv(): Environment {
-        return (process.env.NODE_ENV ?? 'development') as Environment;
+    private built?: Promise<MovicoApplication>;
+
+    /**
+     * Discovers the project and initializes the router stack without listening or installing process
+     * handlers. Called by `start()`; tests use it through `createTestApp()`.
+     *
+     * @param options.discover - Whether to discover the project folders. Defaults to `true`.
+     * @param options.defaultEnvironment - The environment when `NODE_ENV` is unset. Defaults to `development`.
+     * @returns The Express application, ready to handle requests.
+     * @throws If the configuration or the environment variables are invalid.
+     */
+    public build({ discover = true, defaultEnvironment }: { discover?: boolean; defaultEnvironment?: Environment } = {}): Promise<MovicoApplication> {
+        this.built ??= (async () => {
+            const config = this.config = await loadConfig({ overrides: this.overrides, defaultEnvironment });
+            Logger.configure(config.logging);
+            this.container.provide(ConfigService, new ConfigService(config));
+            this.container.provide(AuthService, new AuthService(config.auth));
+            this.container.provide(SecurityService, new SecurityService(config.security));
+
+            if (discover) await this.discover();
+
+            this.router = new AppRouter({
+                viewMap: this.viewMap,
+                viewSources: this.viewSources,
+                services: this.services,
+                container: this.container,
+                controllers: this.controllers,
+                middleware: this.middleware,
+                customVDSConfig: config.vite,
+                streaming: config.streaming,
+                openapi: config.openapi,
+                template: config.template,
+                dist: config.dist,
+                shutdown: config.shutdown,
+            });
+            await this.router.initialize();
+            this.application.use(this.router.getRouter());
+            return this.application;
+        })();
+        return this.built;
     }
 
-    public async start(applicationPort: number = 3000) {
-        await this.router.initialize();
-        this.application.use(this.router.getRouter());
-        console.log(`[Application]: Running in ${this.getEnv()} mode`);
+    /**
+     * Runs the `onReady` hooks and reports the application ready on `/readyz`. Called by `start()` once
+     * the server listens; tests use it through `createTestApp()`.
+     */
+    public async ready() { await this.router?.ready() }
+
+    /**
+     * Releases the application's resources without exiting: runs the `onShutdown` hooks, flushes services
+     * and stops the VDS.
+     */
+    public async close() { await this.router?.close() }
 
-        const port = process.env.PORT ?? applicationPort;
+    /**
+     * Builds the application, listens for requests and runs the `onReady` hooks. `SIGINT` and `SIGTERM`
+     * shut it down gracefully, draining in-flight requests first. WebSocket upgrades are handed to the router
+     * stack, so channels accept them behind the same middleware and guards as other requests.
+     *
+     * @param applicationPort - The port, unless the `PORT` environment variable is set. Defaults to `port` in `movico.config.ts`.
+     */
+    public async start(applicationPort?: number) {
+        await this.build();
+        const config = this.config!;
+        logger.info(`Running in ${config.environment} mode`);
 
-        const server = this.application.listen(port, () => console.log(`Server is running on http://localhost:${port}`));
+        const port = process.env.PORT ? config.port : applicationPort ?? config.port;
 
-        const shutdownHandler = await this.router.handleShutdown(server);
+        const server = this.application.listen(port);
+        server.on('upgrade', handleUpgrade(this.application));
+        await once(server, 'listening');
+        logger.info(`Server is running on http://localhost:${port}`);
+
+        const shutdownHandler = await this.router!.handleShutdown(server);
         process.on('SIGINT', shutdownHandler);
         process.on('SIGTERM', shutdownHandler);
+
+        await this.ready();
     }
-}
\ No newline at end of file
+}
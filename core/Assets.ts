@@ -0,0 +1,252 @@
+import fs from "fs-extra";
+import path from "path";
+import { promisify } from "util";
+import zlib from "zlib";
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import serveStatic from "serve-static";
+import { escapeHtml } from "./View";
+import { VIEW_CHUNKS_FILE } from "./plugin";
+
+/**
+ * Where Vite writes the manifest of a build, relative to the output folder.
+ */
+export const MANIFEST_FILE = ".vite/manifest.json";
+
+/**
+ * Cache policy of files with a content hash in their name: they never change under the same URL.
+ */
+const IMMUTABLE = "public, max-age=31536000, immutable";
+
+/**
+ * Files worth compressing. Images, fonts and media are compressed already.
+ */
+const COMPRESSIBLE = /\.(js|mjs|css|html|svg|json|txt|xml|wasm|map)$/i;
+
+/**
+ * Files smaller than this are not worth compressing.
+ */
+const COMPRESSION_THRESHOLD = 1024;
+
+/**
+ * Precompressed variants, in order of preference when a client accepts several.
+ */
+const ENCODINGS = [
+    { encoding: "br", extension: ".br", compress: promisify(zlib.brotliCompress) },
+    { encoding: "gzip", extension: ".gz", compress: promisify(zlib.gzip) },
+];
+
+/**
+ * A chunk of the Vite manifest. Keys of the manifest, `imports` and `dynamicImports` are source paths
+ * relative to the project root; files are relative to the output folder.
+ */
+export interface ManifestChunk {
+    file: string;
+    src?: string;
+    name?: string;
+    isEntry?: boolean;
+    isDynamicEntry?: boolean;
+    imports?: string[];
+    dynamicImports?: string[];
+    css?: string[];
+    assets?: string[];
+}
+
+export type Manifest = Record<string, ManifestChunk>;
+
+/**
+ * The built files a page needs: the entry script, the stylesheets, and the modules to preload so the
+ * view's chunk does not wait for the entry to request it.
+ */
+export interface PageAssets {
+    scripts: string[];
+    styles: string[];
+    preloads: string[];
+}
+
+/**
+ * Looks up the built files of views in the manifest of the production client build.
+ */
+export class AssetManifest {
+    private cache = new Map<string, PageAssets>();
+
+    /**
+     * @param manifest - The Vite manifest.
+     * @param viewChunks - The chunk file each view module was bundled into, see `VIEW_CHUNKS_FILE`.
+     * @param base - The public base path of the build, Vite's `base`. Defaults to `/`.
+     */
+    constructor(private readonly manifest: Manifest, private readonly viewChunks: Record<string, string> = {}, private readonly base: string = "/") { }
+
+    /**
+     * Reads the manifest of a build.
+     *
+     * @returns The manifest, or `undefined` when the folder holds no build.
+     */
+    public static async read(dist: string, base?: string): Promise<AssetManifest | undefined> {
+        const file = path.resolve(dist, MANIFEST_FILE);
+        if (!(await fs.pathExists(file))) return undefined;
+
+        const viewChunksFile = path.resolve(dist, VIEW_CHUNKS_FILE);
+        const viewChunks = await fs.pathExists(viewChunksFile) ? await fs.readJSON(viewChunksFile) : {};
+        return new AssetManifest(await fs.readJSON(file), viewChunks, base);
+    }
+
+    /**
+     * Returns the files of a page rendering a view: those of the client entry, and those of the view's
+     * module and its static imports.
+     *
+     * @param source - The module the view is exported from, relative to the project root.
+     */
+    public assetsFor(source?: string): PageAssets {
+        const key = source?.split(path.sep).join("/") ?? "";
+        const cached = this.cache.get(key);
+        if (cached) return cached;
+
+        const [entryKey, entry] = Object.entries(this.manifest).find(([, chunk]) => chunk.isEntry) ?? [];
+        const styles = new Set<string>();
+        const preloads = new Set<string>();
+        const visited = new Set<string>();
+
+        const visit = (chunkKey: string) => {
+            const chunk = this.manifest[chunkKey];
+            if (!chunk || visited.has(chunkKey)) return;
+            visited.add(chunkKey);
+
+            if (chunkKey !== entryKey) preloads.add(chunk.file);
+            for (const file of chunk.css ?? []) styles.add(file);
+            for (const imported of chunk.imports ?? []) visit(imported);
+        };
+        if (entryKey) visit(entryKey);
+        if (key) {
+            const chunkFile = this.viewChunks[key];
+            visit(Object.keys(this.manifest).find((chunkKey) => this.manifest[chunkKey].file === chunkFile) ?? key);
+        }
+
+        const url = (file: string) => `${this.base.replace(/\/?$/, "/")}${file}`;
+        const assets: PageAssets = {
+            scripts: entry ? [url(entry.file)] : [],
+            styles: [...styles].map(url),
+            preloads: [...preloads].map(url),
+        };
+        this.cache.set(key, assets);
+        return assets;
+    }
+}
+
+/**
+ * Adds the stylesheets and modulepreload hints of a page before `</head>`, and its scripts before `</body>`.
+ */
+export function injectAssets(template: string, { scripts, styles, preloads }: Partial<PageAssets>): string {
+    const head = [
+        ...(styles ?? []).map((href) => `<link rel="stylesheet" href="${escapeHtml(href)}">`),
+        ...(preloads ?? []).map((href) => `<link rel="modulepreload" href="${escapeHtml(href)}">`),
+    ].join("");
+    const body = (scripts ?? []).map((src) => `<script type="module" src="${escapeHtml(src)}"></script>`).join("");
+
+    return template.replace("</head>", () => `${head}</head>`).replace("</body>", () => `${body}</body>`);
+}
+
+/**
+ * Lists the encodings of the precompressed variants in a build, in order of preference, by the absolute
+ * path of the file they compress. A missing build has none.
+ */
+async function findVariants(dist: string): Promise<Map<string, string[]>> {
+    const variants = new Map<string, string[]>();
+    const entries = await fs.readdir(dist, { recursive: true, withFileTypes: true }).catch(() => []);
+
+    for (const { encoding, extension } of ENCODINGS) {
+        for (const entry of entries) {
+            if (!entry.isFile() || !entry.name.endsWith(extension)) continue;
+            const file = path.join(entry.parentPath, entry.name.slice(0, -extension.length));
+            if (COMPRESSIBLE.test(file)) variants.set(file, [...(variants.get(file) ?? []), encoding]);
+        }
+    }
+    return variants;
+}
+
+/**
+ * Returns middleware answering requests for compressible files with their precompressed variant, when
+ * the build has one and the client accepts it. The request is rewritten to the variant, which the static
+ * handler then serves with the original content type.
+ */
+function servePrecompressed(dist: string): RequestHandler {
+    // The build does not change while the server runs, so its variants are listed once
+    const listing = findVariants(dist);
+
+    return async function servePrecompressed(req: Request, res: Response, next: NextFunction) {
+        if ((req.method !== "GET" && req.method !== "HEAD") || !COMPRESSIBLE.test(req.path)) return next();
+
+        let file: string;
+        try {
+            file = path.join(dist, decodeURIComponent(req.path));
+        } catch {
+            return next();
+        }
+        if (!file.startsWith(dist + path.sep)) return next();
+
+        const available = (await listing).get(file);
+        if (!available) return next();
+
+        res.vary("Accept-Encoding");
+        const encoding = req.acceptsEncodings(available);
+        if (!encoding) return next();
+
+        const { extension } = ENCODINGS.find((variant) => variant.encoding === encoding)!;
+        res.type(path.extname(req.path)).set("Content-Encoding", encoding);
+        req.url = `${req.path}${extension}${req.url.slice(req.path.length)}`;
+        next();
+    };
+}
+
+/**
+ * Keeps the manifest and the other build metadata private; they are read by the server only.
+ */
+const hideBuildMetadata: RequestHandler = function hideBuildMetadata(req, _, next) {
+    next(req.path.startsWith("/.vite/") ? "route" : undefined);
+};
+
+/**
+ * Returns the handlers serving a production build: precompressed variants where possible, files under
+ * `assetsDir` as immutable since Vite puts a content hash in their names, and everything else with
+ * `no-cache` so browsers revalidate it through its ETag.
+ *
+ * @param dist - Absolute path of the build.
+ * @param assetsDir - Vite's `build.assetsDir`. Defaults to `assets`.
+ */
+export function serveAssets(dist: string, assetsDir: string = "assets"): RequestHandler[] {
+    const hashed = path.resolve(dist, assetsDir) + path.sep;
+
+    return [
+        hideBuildMetadata,
+        servePrecompressed(dist),
+        serveStatic(dist, {
+            setHeaders: (res, file) => { res.setHeader("Cache-Control", file.startsWith(hashed) ? IMMUTABLE : "no-cache") },
+        }),
+    ];
+}
+
+/**
+ * Writes gzip and brotli variants next to the compressible files of a build, for `serveAssets()` to
+ * serve. Variants that are not smaller than the file are skipped.
+ *
+ * @returns The number of variants written.
+ */
+export async function compressAssets(dist: string): Promise<number> {
+    let written = 0;
+    const files = (await fs.readdir(dist, { recursive: true, withFileTypes: true }))
+        .filter((entry) => entry.isFile() && COMPRESSIBLE.test(entry.name))
+        .map((entry) => path.join(entry.parentPath, entry.name))
+        .filter((file) => !path.relative(dist, file).startsWith(".vite"));
+
+    for (const file of files) {
+        const content = await fs.readFile(file);
+        if (content.length < COMPRESSION_THRESHOLD) continue;
+
+        for (const { extension, compress } of ENCODINGS) {
+            const compressed = await compress(content);
+            if (compressed.length >= content.length) continue;
+            await fs.writeFile(file + extension, compressed);
+            written++;
+        }
+    }
+    return written;
+}
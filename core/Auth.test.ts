@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { describe, it, mock } from "node:test";
+import { Request, Response } from "express";
+import { BearerStrategy, SessionStrategy } from "./Auth";
+
+const secret = "a-secret-that-is-32-characters-!";
+const user = { id: "42", name: "Ada", roles: ["admin"] };
+
+/**
+ * Builds the parts of a request the strategies read.
+ */
+function toRequest(headers: Record<string, string>): Request {
+    return { get: (name: string) => headers[name.toLowerCase()] } as unknown as Request;
+}
+
+const bearer = (token: string) => toRequest({ authorization: `Bearer ${token}` });
+
+describe("BearerStrategy", () => {
+    it("verifies the tokens it issues", () => {
+        const strategy = new BearerStrategy({ secret });
+
+        assert.deepEqual(strategy.authenticate(bearer(strategy.issue(user))), user);
+        assert.equal(strategy.authenticate(toRequest({})), undefined);
+        assert.equal(strategy.authenticate(bearer("not-a-token")), undefined);
+    });
+
+    it("rejects expired tokens", (context) => {
+        const strategy = new BearerStrategy({ secret, expiresIn: 60_000 });
+        const token = strategy.issue(user);
+        const now = Date.now();
+
+        context.mock.method(Date, "now", () => now + 59_000);
+        assert.deepEqual(strategy.authenticate(bearer(token)), user);
+        context.mock.method(Date, "now", () => now + 61_000);
+        assert.equal(strategy.authenticate(bearer(token)), undefined);
+    });
+
+    it("rejects tampered tokens and tokens signed with another secret", () => {
+        const strategy = new BearerStrategy({ secret });
+        const [header, payload, signature] = strategy.issue({ id: "42" }).split(".");
+        const elevated = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(payload, "base64url").toString()), roles: ["admin"] })).toString("base64url");
+        const unsigned = Buffer.from(JSON.stringify({ alg: "none", typ: "JWT" })).toString("base64url");
+
+        assert.equal(strategy.authenticate(bearer(`${header}.${elevated}.${signature}`)), undefined);
+        assert.equal(strategy.authenticate(bearer(`${header}.${payload}.${signature[0] === "A" ? "B" : "A"}${signature.slice(1)}`)), undefined);
+        assert.equal(strategy.authenticate(bearer(`${unsigned}.${payload}.`)), undefined);
+        assert.equal(new BearerStrategy({ secret: `${secret}?` }).authenticate(bearer(`${header}.${payload}.${signature}`)), undefined);
+    });
+
+    it("rejects secrets shorter than 32 characters", () => {
+        assert.throws(() => new BearerStrategy({ secret: secret.slice(1) }), /The bearer secret must be at least 32 characters long/);
+        assert.throws(() => new SessionStrategy({ secret: "" }), /The session secret must be at least 32 characters long/);
+    });
+});
+
+describe("SessionStrategy", () => {
+    /**
+     * Logs `user` in and returns the value of the session cookie.
+     */
+    function login(strategy: SessionStrategy): string {
+        const cookie = mock.fn<(name: string, value: string) => void>();
+        strategy.login({ cookie } as unknown as Response, user);
+        return cookie.mock.calls[0].arguments[1];
+    }
+
+    it("verifies the session cookie it sets", () => {
+        const strategy = new SessionStrategy({ secret });
+        const token = login(strategy);
+
+        assert.deepEqual(strategy.authenticate(toRequest({ cookie: `theme=dark; movico_session=${token}` })), user);
+        assert.equal(strategy.authenticate(toRequest({ cookie: "theme=dark" })), undefined);
+    });
+
+    it("rejects tokens meant for another strategy sharing the secret", () => {
+        const session = new SessionStrategy({ secret });
+        const tokens = new BearerStrategy({ secret });
+
+        assert.equal(tokens.authenticate(bearer(login(session))), undefined);
+        assert.equal(session.authenticate(toRequest({ cookie: `movico_session=${tokens.issue(user)}` })), undefined);
+    });
+});
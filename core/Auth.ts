@@ -0,0 +1,359 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import Service from "./Service";
+import { ForbiddenError, UnauthorizedError } from "./HttpError";
+import { getRequestContext } from "./RequestContext";
+import { AuthUser } from "./types";
+
+/**
+ * Secrets shorter than this are rejected, as they can be brute-forced offline from a single token.
+ */
+const MIN_SECRET_LENGTH = 32;
+
+/**
+ * Identifies the current user of a request, e.g. from a cookie or a header.
+ */
+export interface AuthStrategy {
+    /**
+     * Short name of the strategy, e.g. `session`.
+     */
+    readonly name: string;
+    /**
+     * The `WWW-Authenticate` challenge sent with 401 responses, e.g. `Bearer`.
+     */
+    readonly challenge?: string;
+    /**
+     * Returns the user the request carries credentials of, or `undefined` when it carries none or
+     * invalid ones.
+     */
+    authenticate(req: Request): AuthUser | undefined | Promise<AuthUser | undefined>;
+}
+
+export interface AuthOptions {
+    /**
+     * Tried in order for every request; the first one returning a user wins.
+     */
+    strategies?: AuthStrategy[];
+    /**
+     * Path of the view page requests are redirected to when a view requires a user and the request has
+     * none. The original URL is passed in the `next` query parameter. Defaults to `/login`.
+     */
+    loginView?: string;
+}
+
+function hmac(data: string, secret: string): string {
+    return createHmac("sha256", secret).update(data).digest("base64url");
+}
+
+function checkSecret(strategy: string, secret: string) {
+    if (typeof secret !== "string" || secret.length < MIN_SECRET_LENGTH) {
+        throw new Error(`[Auth]: The ${strategy} secret must be at least ${MIN_SECRET_LENGTH} characters long`);
+    }
+}
+
+/**
+ * Signs a user into a JSON Web Token (HS256). The user's `id` becomes the `sub` claim; `audience` keeps
+ * tokens of one strategy from being accepted by another sharing the secret.
+ */
+function signToken(user: AuthUser, secret: string, audience: string, expiresIn: number): string {
+    const { id, ...claims } = user;
+    const now = Math.floor(Date.now() / 1000);
+    const header = Buffer.from(JSON.stringify({ alg: "HS256", typ: "JWT" })).toString("base64url");
+    const payload = Buffer.from(JSON.stringify({ ...claims, sub: id, aud: audience, iat: now, exp: now + Math.ceil(expiresIn / 1000) })).toString("base64url");
+    return `${header}.${payload}.${hmac(`${header}.${payload}`, secret)}`;
+}
+
+/**
+ * Verifies a token signed by `signToken()`.
+ *
+ * @returns The user, or `undefined` when the token is malformed, forged, expired or meant for another audience.
+ */
+function verifyToken(token: string, secret: string, audience: string): AuthUser | undefined {
+    const parts = token.split(".");
+    if (parts.length !== 3) return undefined;
+
+    const [header, payload, signature] = parts;
+    const expected = Buffer.from(hmac(`${header}.${payload}`, secret));
+    const given = Buffer.from(signature);
+    if (expected.length !== given.length || !timingSafeEqual(expected, given)) return undefined;
+
+    let claims: Record<string, unknown>;
+    try {
+        if (JSON.parse(Buffer.from(header, "base64url").toString()).alg !== "HS256") return undefined;
+        claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    } catch {
+        return undefined;
+    }
+
+    const { sub, aud, iat, exp, ...rest } = claims;
+    if (typeof sub !== "string" || aud !== audience || typeof exp !== "number" || exp * 1000 <= Date.now()) return undefined;
+    if (rest.roles !== undefined && !(Array.isArray(rest.roles) && rest.roles.every((role) => typeof role === "string"))) return undefined;
+    return { id: sub, ...rest };
+}
+
+/**
+ * Reads a cookie from the `Cookie` header.
+ */
+export function readCookie(req: Request, name: string): string | undefined {
+    for (const pair of (req.get("cookie") ?? "").split(";")) {
+        const index = pair.indexOf("=");
+        if (index === -1 || pair.slice(0, index).trim() !== name) continue;
+        try {
+            return decodeURIComponent(pair.slice(index + 1).trim());
+        } catch {
+            return undefined;
+        }
+    }
+}
+
+export interface SessionStrategyOptions {
+    /**
+     * Signs the session cookies. At least 32 characters; keep it out of the source, e.g. in the `env` schema.
+     */
+    secret: string;
+    /**
+     * Name of the session cookie. Defaults to `movico_session`.
+     */
+    cookie?: string;
+    /**
+     * Milliseconds a session lasts after `login()`. Defaults to 7 days.
+     */
+    maxAge?: number;
+    /**
+     * Whether the cookie is only sent over HTTPS. Defaults to `true` in production.
+     */
+    secure?: boolean;
+    /**
+     * Defaults to `lax`, so the cookie is not sent with cross-site form posts.
+     */
+    sameSite?: "strict" | "lax" | "none";
+}
+
+/**
+ * Sessions kept in a signed, `httpOnly` cookie. Nothing is stored on the server: the cookie carries the
+ * user and its expiry, and is rejected if tampered with.
+ */
+export class SessionStrategy implements AuthStrategy {
+    public readonly name = "session";
+    private readonly options: Required<SessionStrategyOptions>;
+
+    /**
+     * @throws If the secret is shorter than 32 characters.
+     */
+    constructor(options: SessionStrategyOptions) {
+        checkSecret(this.name, options.secret);
+        this.options = {
+            cookie: "movico_session",
+            maxAge: 7 * 24 * 60 * 60 * 1000,
+            secure: process.env.NODE_ENV === "production",
+            sameSite: "lax",
+            ...options,
+        };
+    }
+
+    public authenticate(req: Request): AuthUser | undefined {
+        const token = readCookie(req, this.options.cookie);
+        return token ? verifyToken(token, this.options.secret, this.name) : undefined;
+    }
+
+    /**
+     * Starts a session for a user by setting the session cookie.
+     */
+    public login(res: Response, user: AuthUser) {
+        const { cookie, secret, maxAge, secure, sameSite } = this.options;
+        res.cookie(cookie, signToken(user, secret, this.name, maxAge), { httpOnly: true, secure, sameSite, maxAge, path: "/" });
+    }
+
+    /**
+     * Ends the session by clearing the session cookie.
+     */
+    public logout(res: Response) {
+        const { cookie, secure, sameSite } = this.options;
+        res.clearCookie(cookie, { httpOnly: true, secure, sameSite, path: "/" });
+    }
+}
+
+export interface BearerStrategyOptions {
+    /**
+     * Signs the tokens. At least 32 characters; keep it out of the source, e.g. in the `env` schema.
+     */
+    secret: string;
+    /**
+     * Milliseconds a token issued by `issue()` is valid. Defaults to 1 hour.
+     */
+    expiresIn?: number;
+}
+
+/**
+ * Tokens sent in the `Authorization: Bearer <token>` header, signed JSON Web Tokens (HS256) issued by `issue()`.
+ */
+export class BearerStrategy implements AuthStrategy {
+    public readonly name = "bearer";
+    public readonly challenge = "Bearer";
+    private readonly options: Required<BearerStrategyOptions>;
+
+    /**
+     * @throws If the secret is shorter than 32 characters.
+     */
+    constructor(options: BearerStrategyOptions) {
+        checkSecret(this.name, options.secret);
+        this.options = { expiresIn: 60 * 60 * 1000, ...options };
+    }
+
+    public authenticate(req: Request): AuthUser | undefined {
+        const [scheme, token] = (req.get("authorization") ?? "").split(" ");
+        return scheme?.toLowerCase() === "bearer" && token ? verifyToken(token, this.options.secret, this.name) : undefined;
+    }
+
+    /**
+     * Issues a token for a user.
+     */
+    public issue(user: AuthUser): string {
+        return signToken(user, this.options.secret, this.name, this.options.expiresIn);
+    }
+}
+
+/**
+ * Returns the authenticated user of a request, or of the request being handled when none is given.
+ */
+export function getUser(req?: Request): AuthUser | undefined {
+    return getRequestContext(req)?.user;
+}
+
+/**
+ * Checks whether a user has at least one of the roles. Any user passes an empty list.
+ */
+export function hasRole(user: AuthUser, roles: string[]): boolean {
+    return !roles.length || roles.some((role) => user.roles?.includes(role));
+}
+
+/**
+ * Returns the `next` query parameter of a login request when it is a path on this site, and the fallback
+ * otherwise, so redirecting to it after login cannot send users to another site.
+ */
+export function loginRedirect(next: unknown, fallback: string = "/"): string {
+    return typeof next === "string" && /^\/(?![/\\])/.test(next) ? next : fallback;
+}
+
+/**
+ * Returns the handler enforcing a route's `auth` and `roles`: requests without a user are answered with a
+ * 401, users without one of the roles with a 403.
+ *
+ * @param roles - The roles of which the user needs one. Any user passes an empty list.
+ * @param challenge - The `WWW-Authenticate` header of 401 responses.
+ */
+export function authorize(roles: string[], challenge?: string): RequestHandler {
+    return function authorize(req: Request, res: Response, next: NextFunction) {
+        const user = getUser(req);
+        if (!user) {
+            if (challenge) res.set("WWW-Authenticate", challenge);
+            return next(new UnauthorizedError("Authentication required"));
+        }
+        if (!hasRole(user, roles)) return next(new ForbiddenError(`Requires one of the roles: ${roles.join(", ")}`));
+        next();
+    };
+}
+
+/**
+ * Authenticates requests with the strategies of the `auth` setting of `movico.config.ts`, and signs users
+ * in and out. Declare it in `static inject` to use it.
+ *
+ * Example:
+ * ```typescript
+ * // movico.config.ts
+ * export default defineConfig({
+ *     auth: { strategies: [new SessionStrategy({ secret: process.env.SESSION_SECRET! })], loginView: '/login' },
+ * });
+ *
+ * // controllers/SessionController.ts
+ * class SessionController extends Controller {
+ *     static inject = [AuthService, UsersService];
+ *     routes = [defineRoute({
+ *         method: 'post', path: '/api/session', schema: { body: credentials },
+ *         endpointFn: async (req, res, next, { body, query }) => {
+ *             const user = await this.resolve(UsersService).verify(body.email, body.password);
+ *             this.resolve(AuthService).login(res, { id: user.id, roles: user.roles });
+ *             res.redirect(loginRedirect(query.next));
+ *         },
+ *     })];
+ * }
+ * ```
+ */
+export default class AuthService extends Service {
+    constructor(private readonly options: AuthOptions = {}) { super() }
+
+    /**
+     * Whether any strategy is configured.
+     */
+    public get enabled(): boolean { return Boolean(this.options.strategies?.length) }
+
+    /**
+     * The path of the login view.
+     */
+    public get loginView(): string { return this.options.loginView ?? "/login" }
+
+    /**
+     * The `WWW-Authenticate` challenges of the strategies, sent with 401 responses.
+     */
+    public get challenge(): string | undefined {
+        return this.options.strategies?.map(({ challenge }) => challenge).filter(Boolean).join(", ") || undefined;
+    }
+
+    /**
+     * Returns the user of a request from the first strategy that recognizes its credentials.
+     */
+    public async authenticate(req: Request): Promise<AuthUser | undefined> {
+        for (const strategy of this.options.strategies ?? []) {
+            const user = await strategy.authenticate(req);
+            if (user) return user;
+        }
+    }
+
+    /**
+     * Returns middleware authenticating every request, for `getUser()`, `useUser()`, loaders and guards.
+     */
+    public middleware(): RequestHandler {
+        return async (req: Request, _: Response, next: NextFunction) => {
+            try {
+                const context = getRequestContext(req);
+                if (context) context.user = await this.authenticate(req);
+                next();
+            } catch (error) {
+                next(error);
+            }
+        };
+    }
+
+    private strategy<Strategy extends AuthStrategy>(StrategyClass: new (...args: any[]) => Strategy): Strategy {
+        const strategy = this.options.strategies?.find((candidate): candidate is Strategy => candidate instanceof StrategyClass);
+        if (!strategy) throw new Error(`[Auth]: No ${StrategyClass.name} is configured in the auth strategies`);
+        return strategy;
+    }
+
+    /**
+     * Signs a user in with the configured `SessionStrategy`.
+     *
+     * @throws If no `SessionStrategy` is configured.
+     */
+    public login(res: Response, user: AuthUser) { this.strategy(SessionStrategy).login(res, user) }
+
+    /**
+     * Signs the user out of the configured `SessionStrategy`.
+     *
+     * @throws If no `SessionStrategy` is configured.
+     */
+    public logout(res: Response) { this.strategy(SessionStrategy).logout(res) }
+
+    /**
+     * Issues a token for a user with the configured `BearerStrategy`.
+     *
+     * @throws If no `BearerStrategy` is configured.
+     */
+    public issueToken(user: AuthUser): string { return this.strategy(BearerStrategy).issue(user) }
+
+    protected onSet(): void { }
+
+    protected onRemove(): void { }
+
+    protected onReset(): void { }
+}
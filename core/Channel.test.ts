@@ -0,0 +1,209 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import { createServer, IncomingMessage, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { WebSocket } from "ws";
+import { Channel, handleUpgrade } from "./Channel";
+import Controller from "./Controller";
+import Service from "./Service";
+import { createTestApp, TestApp } from "./testing";
+import { ChannelMessage } from "./types";
+
+class CounterService extends Service<{ count: number; label?: string }> {
+    constructor() { super({ count: 0 }) }
+
+    protected onSet(): void { }
+
+    protected onRemove(): void { }
+
+    protected onReset(): void { }
+}
+
+class CounterController extends Controller {
+    readonly counter = new Channel({ path: "/api/counter", source: { service: CounterService }, history: 3 });
+    readonly replica = new Channel({ path: "/api/counter/replica", source: { service: CounterService } });
+    readonly live = new Channel({ path: "/api/counter/live", transport: "websocket", source: { service: CounterService, keys: ["count"] } });
+    channels = [this.counter, this.replica, this.live];
+    routes = [];
+}
+
+/**
+ * Opens a Server-Sent Events stream and reads its messages one at a time.
+ */
+async function openStream(url: string, headers: Record<string, string> = {}) {
+    const abort = new AbortController();
+    const response = await fetch(url, { headers, signal: abort.signal });
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = "";
+
+    /**
+     * Returns the next message, or `undefined` once the stream ended.
+     */
+    const next = async (): Promise<ChannelMessage | undefined> => {
+        for (;;) {
+            const end = buffer.indexOf("\n\n");
+            if (end !== -1) {
+                const fields = new Map(buffer.slice(0, end).split("\n").map((line) => [line.slice(0, line.indexOf(":")), line.slice(line.indexOf(":") + 2)]));
+                buffer = buffer.slice(end + 2);
+                if (fields.has("data")) return { id: fields.get("id"), data: JSON.parse(fields.get("data")!) };
+                continue;
+            }
+
+            const { done, value } = await reader.read();
+            if (done) return undefined;
+            buffer += value;
+        }
+    };
+    return { response, next, close: () => abort.abort() };
+}
+
+/**
+ * Opens a WebSocket, resolving once it is open or with the status code of a rejected handshake. The first
+ * message is listened for right away, as it can arrive with the handshake.
+ */
+async function openSocket(url: string, origin?: string): Promise<{ socket: WebSocket; status?: number; first: Promise<ChannelMessage> }> {
+    const socket = new WebSocket(url, { origin });
+    const first = new Promise<ChannelMessage>((resolve) => socket.once("message", (raw) => resolve(JSON.parse(String(raw)))));
+    return new Promise((resolve, reject) => {
+        socket.once("open", () => resolve({ socket, first }));
+        socket.once("unexpected-response", (_, response: IncomingMessage) => {
+            response.resume();
+            resolve({ socket, status: response.statusCode, first });
+        });
+        socket.once("error", reject);
+    });
+}
+
+describe("Channel", () => {
+    let app: TestApp;
+    let server: Server;
+    let base: string;
+    let counter: CounterService;
+
+    before(async () => {
+        app = await createTestApp({ discover: false, services: [CounterService], controllers: [CounterController] });
+        counter = app.container.resolve(CounterService);
+
+        server = createServer(app.application);
+        server.on("upgrade", handleUpgrade(app.application));
+        server.listen(0, "127.0.0.1");
+        await once(server, "listening");
+        base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(async () => {
+        await app.close();
+        server.closeAllConnections();
+        server.close();
+    });
+
+    it("sends the snapshot, then broadcasts setValue and removeProp changes of the source", async () => {
+        const stream = await openStream(`${base}/api/counter`);
+        try {
+            assert.match(String(stream.response.headers.get("content-type")), /^text\/event-stream/);
+            const snapshot = await stream.next();
+            assert.deepEqual(snapshot?.data, counter.getAllProps());
+
+            counter.setValue("label", "visitors");
+            counter.setValue("count", counter.getValue("count")! + 1);
+            counter.removeProp("label");
+
+            const broadcasts = [await stream.next(), await stream.next(), await stream.next()];
+            assert.deepEqual(broadcasts.map((message) => message?.data), [
+                { count: snapshot?.data.count, label: "visitors" },
+                { count: snapshot?.data.count + 1, label: "visitors" },
+                { count: snapshot?.data.count + 1 },
+            ]);
+            assert.ok(broadcasts.every((message) => /^\w+-\d+$/.test(message?.id ?? "")));
+        } finally {
+            stream.close();
+        }
+    });
+
+    it("resumes from the history, with the Last-Event-ID header or the lastEventId parameter", async () => {
+        const stream = await openStream(`${base}/api/counter`);
+        const { id } = (await stream.next())!;
+        counter.setValue("count", 10);
+        counter.setValue("count", 11);
+        stream.close();
+
+        for (const resume of [{ headers: { "last-event-id": id! } }, { query: `?lastEventId=${encodeURIComponent(id!)}` }]) {
+            const resumed = await openStream(`${base}/api/counter${resume.query ?? ""}`, resume.headers);
+            try {
+                assert.deepEqual([(await resumed.next())?.data, (await resumed.next())?.data], [{ count: 10 }, { count: 11 }]);
+            } finally {
+                resumed.close();
+            }
+        }
+    });
+
+    it("sends the snapshot when the requested id has dropped out of the history", async () => {
+        const stream = await openStream(`${base}/api/counter`);
+        const { id } = (await stream.next())!;
+        for (const count of [20, 21, 22, 23]) counter.setValue("count", count);
+        stream.close();
+
+        const resumed = await openStream(`${base}/api/counter`, { "last-event-id": id! });
+        try {
+            const message = await resumed.next();
+            assert.deepEqual(message?.data, { count: 23 });
+            assert.notEqual(message?.id, id);
+        } finally {
+            resumed.close();
+        }
+    });
+
+    it("sends the snapshot when resuming with an id of another channel instance", async () => {
+        const stream = await openStream(`${base}/api/counter`);
+        const { id } = (await stream.next())!;
+        stream.close();
+
+        // Both channels broadcast the same changes, so only the epoch of their ids differs
+        const replica = await openStream(`${base}/api/counter/replica`, { "last-event-id": id! });
+        try {
+            const message = await replica.next();
+            assert.deepEqual(message?.data, counter.getAllProps());
+            assert.equal(message?.id?.split("-")[1], id?.split("-")[1]);
+            assert.notEqual(message?.id, id);
+        } finally {
+            replica.close();
+        }
+    });
+
+    it("rejects WebSocket handshakes from other origins", async () => {
+        const live = `${base.replace("http", "ws")}/api/counter/live`;
+
+        for (const origin of ["https://evil.example", "null"]) {
+            const { status } = await openSocket(live, origin);
+            assert.equal(status, 403, origin);
+        }
+
+        const { socket, status, first } = await openSocket(live, base);
+        try {
+            assert.equal(status, undefined);
+            assert.deepEqual((await first).data, { count: counter.getValue("count") });
+        } finally {
+            socket.close();
+        }
+    });
+
+    it("answers WebSocket channels requested without an upgrade with a 426", async () => {
+        const response = await app.inject({ url: "/api/counter/live", headers: { accept: "application/json" } });
+        assert.equal(response.status, 426);
+    });
+
+    it("closes every connection on shutdown and refuses new ones", async () => {
+        const stream = await openStream(`${base}/api/counter`);
+        await stream.next();
+        const { socket, first } = await openSocket(`${base.replace("http", "ws")}/api/counter/live`, base);
+        await first;
+
+        const closed = once(socket, "close");
+        await app.close();
+
+        assert.equal(await stream.next(), undefined);
+        assert.equal((await closed)[0], 1001);
+        assert.equal((await fetch(`${base}/api/counter`)).status, 503);
+    });
+});
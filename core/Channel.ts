@@ -0,0 +1,397 @@
+import { randomUUID } from "crypto";
+import { IncomingMessage, RequestListener, ServerResponse } from "http";
+import { Socket } from "net";
+import { Duplex } from "stream";
+import { Request, Response } from "express";
+import { WebSocket, WebSocketServer } from "ws";
+import Service from "./Service";
+import Container from "./Container";
+import Logger from "./Logger";
+import Middleware from "./Middleware";
+import { HttpError, ServiceUnavailableError } from "./HttpError";
+import { getUser } from "./Auth";
+import { LAST_EVENT_ID_PARAM } from "./View";
+import { AuthUser, ChannelMessage, ChannelTransport, Environment, RateLimitOptions, Route, ServiceChange, ServiceConstructor } from "./types";
+
+/**
+ * Milliseconds between keep-alive comments of Server-Sent Events and pings of WebSockets, so proxies do
+ * not close idle connections and dead WebSocket peers are dropped.
+ */
+const HEARTBEAT_INTERVAL = 30 * 1000;
+
+/**
+ * Milliseconds a Server-Sent Events client waits before reconnecting.
+ */
+const SSE_RETRY = 3000;
+
+/**
+ * Largest WebSocket message accepted from a client, in bytes.
+ */
+const MAX_PAYLOAD = 1024 * 1024;
+
+const logger = new Logger('Channel');
+
+/**
+ * The socket of upgrade requests, kept while they pass through the router stack.
+ */
+const upgrades = new WeakMap<IncomingMessage, { socket: Duplex; head: Buffer }>();
+
+/**
+ * Returns the `upgrade` listener of an HTTP server, passing WebSocket handshakes through the Express
+ * application like any other request: request IDs, security headers, authentication, middleware, rate
+ * limits, guards and the `Origin` check of `SecurityService` apply before a channel accepts the connection.
+ * Rejections are answered on the socket, which is then closed.
+ */
+export function handleUpgrade(application: RequestListener) {
+    return (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+        upgrades.set(req, { socket, head });
+
+        const res = new ServerResponse(req);
+        res.assignSocket(socket as Socket);
+        res.shouldKeepAlive = false;
+        res.on('finish', () => socket.end());
+        application(req, res);
+    };
+}
+
+/**
+ * A client connected to a `Channel`.
+ */
+export interface ChannelClient<Message = unknown> {
+    readonly id: string;
+    readonly request: Request;
+    /**
+     * The authenticated user, if any.
+     */
+    readonly user?: AuthUser;
+    /**
+     * Sends a message to this client only.
+     */
+    send(data: Message): void;
+    /**
+     * Ends the connection. Clients of `useChannel()` reconnect.
+     */
+    close(): void;
+}
+
+/**
+ * Broadcasts the changes of a singleton `Service` on a channel.
+ */
+export interface ChannelSource<TargetService extends Service<any> = Service<any>, Message = unknown> {
+    service: ServiceConstructor<TargetService>;
+    /**
+     * Properties whose changes are broadcast. Defaults to every property.
+     */
+    keys?: string[];
+    /**
+     * Builds the message of an update, and the snapshot sent to clients connecting or unable to resume
+     * (with no changes). Defaults to the service's properties, limited to `keys`.
+     */
+    select?: (service: TargetService, changes: ServiceChange[]) => Message;
+}
+
+export interface ChannelOptions<Message = unknown> {
+    path: string;
+    /**
+     * Defaults to `sse`.
+     */
+    transport?: ChannelTransport;
+    /**
+     * Service whose changes are broadcast.
+     */
+    source?: ChannelSource<any, Message>;
+    /**
+     * How many broadcasts are kept for clients resuming after a reconnect. Defaults to `100`.
+     */
+    history?: number;
+    /**
+     * Guards, middleware, environment scope and rate limit of the connecting request, as on a `Route`.
+     */
+    auth?: boolean;
+    roles?: string[];
+    middleware?: Middleware[];
+    envScope?: Environment;
+    rateLimit?: RateLimitOptions;
+    summary?: string;
+    description?: string;
+    /**
+     * Called once a client is connected and has received the messages it missed or the source's snapshot.
+     */
+    onConnect?(client: ChannelClient<Message>): void | Promise<void>;
+    /**
+     * Called with every WebSocket message of a client, parsed from JSON when it is JSON.
+     */
+    onMessage?(client: ChannelClient<Message>, message: unknown): void | Promise<void>;
+    onDisconnect?(client: ChannelClient<Message>): void;
+}
+
+interface Connection {
+    client: ChannelClient<any>;
+    write(message: ChannelMessage): void;
+    heartbeat(): void;
+    end(): void;
+}
+
+/**
+ * `Channel` class
+ *
+ * Pushes messages to connected clients over Server-Sent Events or a WebSocket. Declare channels in a
+ * controller's `channels` array: each one is registered as a `GET` route of its path, behind the same
+ * guards and middleware as routes, and closed when the application shuts down, before connections drain.
+ *
+ * Broadcasts are numbered and the last `history` of them kept, so a client reconnecting with the id of
+ * the last message it received gets the ones it missed; one that cannot resume gets the source's snapshot.
+ * Ids are prefixed with an epoch drawn when the channel is created, `<epoch>-<n>`, so ids from before a
+ * restart or from another instance are never mistaken for ones of this channel.
+ * Use `useChannel()` on the client, which reconnects and resumes on its own.
+ *
+ * Example:
+ * ```typescript
+ * class DashboardController extends Controller {
+ *     readonly stats = new Channel({ path: '/api/stats', transport: 'websocket', source: { service: StatsService, keys: ['visitors'] } });
+ *     channels = [this.stats];
+ *     routes = [];
+ * }
+ * ```
+ *
+ * @template Message - The data of the channel's messages.
+ */
+export class Channel<Message = unknown> {
+    private connections = new Set<Connection>();
+    private history: Required<ChannelMessage<Message>>[] = [];
+    private lastId = 0;
+    private readonly epoch = randomUUID().slice(0, 8);
+    private closed = false;
+    private heartbeat?: NodeJS.Timeout;
+    private unsubscribe?: () => void;
+    private snapshot?: () => Message;
+    private server?: WebSocketServer;
+    private route?: Route;
+
+    constructor(private readonly options: ChannelOptions<Message>) { }
+
+    public get path(): string { return this.options.path }
+
+    public get transport(): ChannelTransport { return this.options.transport ?? 'sse' }
+
+    /**
+     * The number of connected clients.
+     */
+    public get size(): number { return this.connections.size }
+
+    /**
+     * Subscribes to the source service, if any, resolving it from the container.
+     *
+     * @throws If the source is not a registered singleton service.
+     */
+    public bind(container?: Container) {
+        this.unsubscribe?.();
+        const { source } = this.options;
+        if (!source) return;
+
+        if (container?.lifetimeOf(source.service) !== 'singleton') {
+            throw new Error(`[Channel]: ${this.path} can only broadcast a registered singleton service, ${source.service.name} is not`);
+        }
+
+        const service: Service = container.resolve(source.service);
+        const select = source.select ?? ((target: Service) => {
+            const properties = target.getAllProps();
+            return (source.keys ? Object.fromEntries(source.keys.map((key) => [key, properties[key]])) : properties) as Message;
+        });
+
+        this.snapshot = () => select(service, []);
+        this.unsubscribe = service.subscribe('*', (changes: ServiceChange[]) => {
+            const relevant = source.keys ? changes.filter((change) => change.type === 'reset' || source.keys!.includes(String(change.key))) : changes;
+            if (relevant.length) this.broadcast(select(service, relevant));
+        });
+    }
+
+    /**
+     * Sends a message to every connected client and keeps it for clients resuming later.
+     */
+    public broadcast(data: Message) {
+        const message = { id: this.idOf(++this.lastId), data };
+        this.history.push(message);
+        if (this.history.length > (this.options.history ?? 100)) this.history.shift();
+
+        for (const connection of this.connections) connection.write(message);
+    }
+
+    /**
+     * Returns the route clients connect through, registered by the controller.
+     */
+    public toRoute(): Route {
+        const { path, auth, roles, middleware, envScope, rateLimit, summary, description } = this.options;
+        this.route ??= {
+            method: 'get',
+            path,
+            auth,
+            roles,
+            middleware,
+            envScope,
+            rateLimit,
+            summary,
+            description,
+            responses: this.transport === 'sse'
+                ? { 200: { description: 'Server-Sent Events stream', contentType: 'text/event-stream' } }
+                : { 101: { description: 'Switching to the WebSocket protocol' } },
+            channel: this.transport,
+            endpointFn: (req, res) => this.connect(req, res),
+        };
+        return this.route;
+    }
+
+    /**
+     * Accepts a client on the transport of the channel.
+     *
+     * @throws A `ServiceUnavailableError` once the channel is closed, or a 426 when a WebSocket channel is
+     * requested without an upgrade.
+     */
+    private async connect(req: Request, res: Response) {
+        if (this.closed) throw new ServiceUnavailableError('The channel is shutting down');
+
+        if (this.transport === 'sse') return this.accept(req, this.openEventStream(req, res));
+
+        const upgrade = upgrades.get(req);
+        if (!upgrade) {
+            res.set('Upgrade', 'websocket');
+            throw new HttpError(426, 'Upgrade Required', `${this.path} is a WebSocket channel`);
+        }
+
+        res.detachSocket(upgrade.socket as Socket);
+        this.server ??= new WebSocketServer({ noServer: true, maxPayload: MAX_PAYLOAD });
+        this.server.handleUpgrade(req, upgrade.socket, upgrade.head, (socket) => {
+            this.accept(req, this.openWebSocket(req, socket)).catch((error) => logger.error(`Failed to accept a client on ${this.path}`, error));
+        });
+    }
+
+    private openEventStream(req: Request, res: Response): Connection {
+        res.status(200).set({
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no',
+        });
+        res.flushHeaders();
+        res.write(`retry: ${SSE_RETRY}\n\n`);
+
+        const write = ({ id, data }: ChannelMessage) => {
+            res.write(`${id === undefined ? '' : `id: ${id}\n`}data: ${JSON.stringify(data) ?? 'null'}\n\n`);
+        };
+        const connection: Connection = {
+            client: this.createClient(req, write, () => res.end()),
+            write,
+            heartbeat: () => res.write(': keep-alive\n\n'),
+            end: () => res.end(),
+        };
+        res.on('close', () => this.disconnect(connection));
+        return connection;
+    }
+
+    private openWebSocket(req: Request, socket: WebSocket): Connection {
+        let alive = true;
+        const write = (message: ChannelMessage) => {
+            if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+        };
+        const connection: Connection = {
+            client: this.createClient(req, write, () => socket.close(1000)),
+            write,
+            heartbeat: () => {
+                if (!alive) return socket.terminate();
+                alive = false;
+                socket.ping();
+            },
+            end: () => socket.close(1001, 'Server shutting down'),
+        };
+
+        socket.on('pong', () => { alive = true });
+        socket.on('close', () => this.disconnect(connection));
+        socket.on('error', (error) => logger.warn(`WebSocket error on ${this.path}`, error));
+        socket.on('message', async (raw) => {
+            const text = raw.toString();
+            let message: unknown = text;
+            try { message = JSON.parse(text) } catch { /* Plain text */ }
+
+            try {
+                await this.options.onMessage?.(connection.client, message);
+            } catch (error) {
+                logger.error(`onMessage of ${this.path} failed`, error);
+            }
+        });
+        return connection;
+    }
+
+    private createClient(req: Request, write: (message: ChannelMessage) => void, close: () => void): ChannelClient<Message> {
+        return { id: randomUUID(), request: req, user: getUser(req), send: (data) => write({ data }), close };
+    }
+
+    /**
+     * Registers a connection, then catches it up: the broadcasts after the id it resumes from, or the
+     * source's snapshot when it does not resume or missed more than the history holds.
+     */
+    private async accept(req: Request, connection: Connection) {
+        this.connections.add(connection);
+        this.heartbeat ??= setInterval(() => this.connections.forEach((open) => open.heartbeat()), HEARTBEAT_INTERVAL).unref();
+
+        const resumeFrom = this.sequenceOf(req.get('last-event-id') ?? req.query[LAST_EVENT_ID_PARAM]);
+        const missed = resumeFrom === undefined ? Infinity : this.lastId - resumeFrom;
+        if (missed >= 0 && missed <= this.history.length) {
+            for (const message of this.history.slice(this.history.length - missed)) connection.write(message);
+        } else if (this.snapshot) {
+            connection.write({ id: this.lastId ? this.idOf(this.lastId) : undefined, data: this.snapshot() });
+        }
+
+        logger.debug(`Client ${connection.client.id} connected to ${this.path} (${this.transport}, ${this.connections.size} connected)`);
+        await this.options.onConnect?.(connection.client);
+    }
+
+    private idOf(sequence: number): string {
+        return `${this.epoch}-${sequence}`;
+    }
+
+    /**
+     * Returns the sequence number of a message id, or `undefined` when it is malformed or of another epoch.
+     */
+    private sequenceOf(id: unknown): number | undefined {
+        const match = typeof id === 'string' ? /^(\w+)-(\d+)$/.exec(id) : null;
+        return match?.[1] === this.epoch ? Number(match[2]) : undefined;
+    }
+
+    private disconnect(connection: Connection) {
+        if (!this.connections.delete(connection)) return;
+
+        logger.debug(`Client ${connection.client.id} disconnected from ${this.path}`);
+        if (!this.connections.size) {
+            clearInterval(this.heartbeat);
+            this.heartbeat = undefined;
+        }
+        try {
+            this.options.onDisconnect?.(connection.client);
+        } catch (error) {
+            logger.error(`onDisconnect of ${this.path} failed`, error);
+        }
+    }
+
+    /**
+     * Stops broadcasting, ends every connection and refuses new ones. WebSocket clients are closed with
+     * `1001 Going Away`, so `useChannel()` reconnects, e.g. to another instance.
+     */
+    public close() {
+        if (this.closed) return;
+        this.closed = true;
+
+        this.unsubscribe?.();
+        for (const connection of [...this.connections]) {
+            connection.end();
+            this.disconnect(connection);
+        }
+        this.server?.close();
+    }
+}
+
+/**
+ * Creates a channel, inferring its message type from the source's `select`.
+ */
+export function defineChannel<Message>(options: ChannelOptions<Message>): Channel<Message> {
+    return new Channel(options);
+}
@@ -0,0 +1,272 @@
+import fs from "fs-extra";
+import path from "path";
+import { pathToFileURL } from "url";
+import { ComponentType } from "react";
+import { InlineConfig, loadEnv } from "vite";
+import Service from "./Service";
+import { Infer, ObjectSchema } from "./Schema";
+import { OpenAPIOptions } from "./OpenAPI";
+import { LoggerOptions } from "./Logger";
+import { Document, DocumentProps, renderDocument } from "./Document";
+import { AuthOptions } from "./Auth";
+import { SecurityOptions } from "./Security";
+import { Environment, ShutdownOptions, StreamingOptions, ValidationIssue } from "./types";
+
+export const ENVIRONMENTS: readonly Environment[] = ['development', 'production', 'test'];
+
+/**
+ * Files the configuration is read from, first match wins.
+ */
+const CONFIG_FILES = ['movico.config.ts', 'movico.config.mts', 'movico.config.js', 'movico.config.mjs'];
+
+/**
+ * The settings that can differ per environment.
+ */
+export interface ConfigOptions {
+    /**
+     * Port the server listens on. The `PORT` environment variable takes precedence. Defaults to `3000`.
+     */
+    port?: number;
+    /**
+     * The HTML page views render into. Must contain `<div id="root"></div>`; the client entry script
+     * is added before `</body>`. Takes precedence over `document`.
+     */
+    template?: string;
+    /**
+     * A React component rendering the page views render into, see `Document`. Defaults to `Document`.
+     */
+    document?: ComponentType<DocumentProps>;
+    /**
+     * Where the production client bundle is built to and served from, relative to the root. Defaults to `dist`.
+     */
+    dist?: string;
+    /**
+     * Vite configuration for the development server and the client build.
+     */
+    vite?: InlineConfig;
+    streaming?: StreamingOptions;
+    openapi?: OpenAPIOptions;
+    logging?: LoggerOptions;
+    shutdown?: ShutdownOptions;
+    /**
+     * Authentication strategies and the login view, see `AuthService`.
+     */
+    auth?: AuthOptions;
+    /**
+     * Security headers, CSRF protection and the rate limit store, see `SecurityService`.
+     */
+    security?: SecurityOptions;
+}
+
+/**
+ * The contents of `movico.config.ts`.
+ *
+ * @template EnvSchema - The schema of the environment variables the application reads.
+ */
+export interface MovicoConfig<EnvSchema extends ObjectSchema<any> = ObjectSchema<any>> extends ConfigOptions {
+    /**
+     * Environment variables the application needs. They are checked at startup, after `.env` files are
+     * loaded, and every failure is reported at once.
+     */
+    env?: EnvSchema;
+    /**
+     * Settings replacing the base ones in one environment. Nested objects are merged.
+     */
+    environments?: Partial<Record<Environment, ConfigOptions>>;
+}
+
+/**
+ * The configuration of the running environment, with defaults filled in.
+ */
+export interface ResolvedConfig<Env extends Record<string, unknown> = Record<string, unknown>> {
+    environment: Environment;
+    root: string;
+    port: number;
+    template: string;
+    /**
+     * Absolute path of the production client bundle.
+     */
+    dist: string;
+    vite: InlineConfig;
+    streaming: StreamingOptions;
+    openapi: OpenAPIOptions;
+    logging: LoggerOptions;
+    shutdown: ShutdownOptions;
+    auth: AuthOptions;
+    security: SecurityOptions;
+    /**
+     * The validated and coerced environment variables declared in the `env` schema.
+     */
+    env: Env;
+}
+
+export interface LoadConfigOptions {
+    /**
+     * The project root holding `movico.config.ts` and the `.env` files. Defaults to the working directory.
+     */
+    root?: string;
+    /**
+     * The environment when `NODE_ENV` is unset. Defaults to `development`.
+     */
+    defaultEnvironment?: Environment;
+    /**
+     * Settings taking precedence over the configuration file, e.g. the arguments of `Application`.
+     */
+    overrides?: ConfigOptions;
+}
+
+/**
+ * Identity helper that types a configuration file.
+ *
+ * Example:
+ * ```typescript
+ * // movico.config.ts
+ * export default defineConfig({
+ *     port: 8080,
+ *     env: schema.object({ DATABASE_URL: schema.string(), CACHE_TTL: schema.number().default(60) }),
+ *     environments: {
+ *         development: { logging: { level: 'debug' } },
+ *         production: { dist: 'build' },
+ *     },
+ * });
+ * ```
+ */
+export function defineConfig<EnvSchema extends ObjectSchema<any>>(config: MovicoConfig<EnvSchema>): MovicoConfig<EnvSchema> {
+    return config;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Merges layers of settings: plain objects are merged recursively, anything else is replaced, and
+ * `undefined` leaves the value below in place.
+ */
+function merge<Target extends Record<string, any>>(base: Target, ...layers: (Partial<Target> | undefined)[]): Target {
+    const result: Record<string, unknown> = { ...base };
+    for (const layer of layers) {
+        for (const [key, value] of Object.entries(layer ?? {})) {
+            if (value === undefined) continue;
+            result[key] = isPlainObject(value) && isPlainObject(result[key]) ? merge(result[key] as Record<string, unknown>, value) : value;
+        }
+    }
+    return result as Target;
+}
+
+/**
+ * Reads the configuration file of a project, if it has one.
+ */
+async function readConfigFile(root: string): Promise<MovicoConfig> {
+    for (const name of CONFIG_FILES) {
+        const file = path.resolve(root, name);
+        if (!(await fs.pathExists(file))) continue;
+
+        const module = await import(pathToFileURL(file).href);
+        return module.default ?? {};
+    }
+    return {};
+}
+
+/**
+ * Resolves the configuration of the running environment.
+ *
+ * - Determines the environment from `NODE_ENV` and writes it back, so every part of the framework agrees.
+ * - Loads `.env`, `.env.local`, `.env.<environment>` and `.env.<environment>.local`; variables already
+ *   set in the process take precedence.
+ * - Merges `movico.config.ts`, its `environments` entry for the environment, and the overrides.
+ * - Validates the environment variables against the `env` schema.
+ *
+ * @throws If `NODE_ENV` is not a known environment, the template has no root container, `PORT` is not a
+ * port number, or environment variables fail their schema. All variable failures are listed at once.
+ */
+export async function loadConfig(options: LoadConfigOptions = {}): Promise<ResolvedConfig> {
+    const root = options.root ?? process.cwd();
+
+    const environment = (process.env.NODE_ENV || options.defaultEnvironment || 'development') as Environment;
+    if (!ENVIRONMENTS.includes(environment)) {
+        throw new Error(`[Config]: NODE_ENV must be one of ${ENVIRONMENTS.join(', ')}, got "${environment}"`);
+    }
+    process.env.NODE_ENV = environment;
+
+    for (const [key, value] of Object.entries(loadEnv(environment, root, ''))) {
+        process.env[key] ??= value;
+    }
+
+    const { env: envSchema, environments, ...base } = await readConfigFile(root);
+    const settings = merge<ConfigOptions>(base, environments?.[environment], options.overrides);
+
+    const template = settings.template ?? renderDocument(settings.document ?? Document);
+    if (!template.includes('<div id="root"></div>')) {
+        throw new Error(`[Config]: The ${settings.template ? 'template' : 'document'} must contain <div id="root"></div>`);
+    }
+
+    const port = process.env.PORT ? Number(process.env.PORT) : settings.port ?? 3000;
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new Error(`[Config]: PORT must be a port number, got "${process.env.PORT ?? settings.port}"`);
+    }
+
+    const issues: ValidationIssue[] = [];
+    const env = envSchema?.validate(process.env, { location: 'env', path: [], issues }) ?? {};
+    if (issues.length) {
+        throw new Error(`[Config]: Invalid environment variables:\n${issues.map(({ path: name, message }) => `  - ${name}: ${message}`).join('\n')}`);
+    }
+
+    return {
+        environment,
+        root,
+        port,
+        template,
+        dist: path.resolve(root, settings.dist ?? 'dist'),
+        vite: settings.vite ?? {},
+        streaming: settings.streaming ?? {},
+        openapi: settings.openapi ?? {},
+        logging: settings.logging ?? {},
+        shutdown: settings.shutdown ?? {},
+        auth: settings.auth ?? {},
+        security: settings.security ?? {},
+        env,
+    };
+}
+
+/**
+ * The environment variables declared by a configuration's `env` schema.
+ */
+export type ConfigEnv<Config> = Config extends MovicoConfig<infer EnvSchema> ? Infer<EnvSchema> : never;
+
+/**
+ * Makes the resolved configuration injectable: declare it in `static inject` of a controller or service.
+ *
+ * Example:
+ * ```typescript
+ * import appConfig from '../movico.config';
+ *
+ * class MailService extends Service {
+ *     static inject = [ConfigService];
+ *     constructor(private config: ConfigService<ConfigEnv<typeof appConfig>>) { super() }
+ *
+ *     send() { return fetch(this.config.env.MAIL_API_URL) }
+ * }
+ * ```
+ *
+ * @template Env - The validated environment variables, see `ConfigEnv`.
+ */
+export default class ConfigService<Env extends Record<string, unknown> = Record<string, any>> extends Service {
+    constructor(private readonly config: ResolvedConfig<Env>) { super() }
+
+    /**
+     * Returns one setting of the resolved configuration.
+     */
+    public get<Key extends keyof ResolvedConfig<Env>>(key: Key): ResolvedConfig<Env>[Key] { return this.config[key] }
+
+    /**
+     * The validated environment variables.
+     */
+    public get env(): Env { return this.config.env }
+
+    protected onSet(): void { }
+
+    protected onRemove(): void { }
+
+    protected onReset(): void { }
+}
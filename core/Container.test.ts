@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import Container from "./Container";
+import Service from "./Service";
+import { Lifetime, ServiceConstructor } from "./types";
+
+/**
+ * Creates a service class named `name`. Calling it twice with the same name gives two distinct classes,
+ * like the copies of a module the dev server and the SSR build each load.
+ */
+function defineService(name: string, options: { lifetime?: Lifetime; inject?: ServiceConstructor[] } = {}) {
+    const ServiceClass = class extends Service {
+        static lifetime: Lifetime = options.lifetime ?? "singleton";
+        static inject = options.inject ?? [];
+
+        protected onSet(): void { }
+
+        protected onRemove(): void { }
+
+        protected onReset(): void { }
+    };
+    Object.defineProperty(ServiceClass, "name", { value: name });
+    return ServiceClass;
+}
+
+describe("Container", () => {
+    it("shares singletons, creates transients every time and request services once per scope", () => {
+        const Singleton = defineService("SingletonService");
+        const Transient = defineService("TransientService", { lifetime: "transient" });
+        const Scoped = defineService("ScopedService", { lifetime: "request" });
+        const container = new Container().register(Singleton).register(Transient).register(Scoped);
+        const [first, second] = [{}, {}];
+
+        assert.equal(container.resolve(Singleton), container.resolve(Singleton));
+        assert.notEqual(container.resolve(Transient), container.resolve(Transient));
+        assert.equal(container.resolve(Scoped, first), container.resolve(Scoped, first));
+        assert.notEqual(container.resolve(Scoped, first), container.resolve(Scoped, second));
+        assert.throws(() => container.resolve(Scoped), /ScopedService is request-scoped and must be resolved with a request/);
+    });
+
+    it("passes dependencies to the constructor in order", () => {
+        const Audit = defineService("AuditService");
+        class UsersService extends Service {
+            static inject = [Audit];
+
+            constructor(public readonly audit: Service) { super() }
+
+            protected onSet(): void { }
+
+            protected onRemove(): void { }
+
+            protected onReset(): void { }
+        }
+        const container = new Container().register(Audit).register(UsersService);
+
+        assert.equal(container.resolve(UsersService).audit, container.resolve(Audit));
+    });
+
+    it("detects dependency cycles when resolving and validating", () => {
+        const First = defineService("FirstService");
+        const Second = defineService("SecondService", { inject: [First] });
+        First.inject = [Second];
+        const container = new Container().register(First).register(Second);
+
+        assert.throws(() => container.resolve(First), /Dependency cycle: FirstService -> SecondService -> FirstService/);
+        assert.throws(() => container.validate(), /Dependency cycle: FirstService -> SecondService -> FirstService/);
+    });
+
+    it("rejects singletons depending on request-scoped services", () => {
+        const Scoped = defineService("ScopedService", { lifetime: "request" });
+        const Captive = defineService("CaptiveService", { inject: [Scoped] });
+        const container = new Container().register(Scoped).register(Captive);
+
+        assert.throws(() => container.validate(), /Singleton CaptiveService cannot depend on request-scoped ScopedService/);
+    });
+
+    it("lists every missing binding, including those of consumers", () => {
+        const Missing = defineService("MissingService");
+        const Dependent = defineService("DependentService", { inject: [Missing] });
+        const container = new Container().register(Dependent);
+
+        assert.throws(() => container.resolve(Missing), /No binding registered for MissingService/);
+        assert.throws(
+            () => container.validate([{ name: "UsersController", inject: [Missing] }]),
+            (error: Error) => /DependentService depends on MissingService/.test(error.message) && /UsersController depends on MissingService/.test(error.message),
+        );
+    });
+
+    it("prefers overrides to registrations", () => {
+        const Users = defineService("UsersService");
+        const container = new Container().register(Users);
+        const original = container.resolve(Users);
+
+        const fake = new Users();
+        container.override(Users, fake);
+        assert.equal(container.resolve(Users), fake);
+        assert.ok(container.isOverridden(Users));
+
+        container.override(Users, () => new Users(), "transient");
+        assert.notEqual(container.resolve(Users), container.resolve(Users));
+        assert.notEqual(container.resolve(Users), original);
+    });
+
+    it("resolves another copy of a class by its name, sharing the instance", () => {
+        const Users = defineService("UsersService");
+        const UsersCopy = defineService("UsersService");
+        const Other = defineService("OtherService");
+        const container = new Container().register(Users);
+
+        assert.ok(container.has(UsersCopy));
+        assert.equal(container.lifetimeOf(UsersCopy), "singleton");
+        assert.equal(container.resolve(UsersCopy), container.resolve(Users));
+        assert.equal(container.has(Other), false);
+
+        const fake = new Users();
+        container.override(Users, fake);
+        assert.equal(container.resolve(UsersCopy), fake);
+    });
+
+    it("prefers the exact class to another class with the same name", () => {
+        const Users = defineService("UsersService");
+        const UsersCopy = defineService("UsersService");
+        const container = new Container().register(Users).register(UsersCopy);
+
+        assert.ok(container.resolve(Users) instanceof Users);
+        assert.ok(container.resolve(UsersCopy) instanceof UsersCopy);
+    });
+
+    it("lists singletons in creation order, dependencies first", () => {
+        const Audit = defineService("AuditService");
+        const Users = defineService("UsersService", { inject: [Audit] });
+        const container = new Container().register(Users).register(Audit);
+        const users = container.resolve(Users);
+
+        assert.deepEqual(container.instances(), [container.resolve(Audit), users]);
+    });
+});
@@ -0,0 +1,244 @@
+import Service from "./Service";
+import { Lifetime, ServiceConstructor } from "./types";
+
+/**
+ * How the container produces instances of a service.
+ */
+interface Binding<TargetService extends Service<any> = Service<any>> {
+    lifetime: Lifetime;
+    dependencies: ServiceConstructor[];
+    create: (dependencies: Service[]) => TargetService;
+}
+
+/**
+ * Something that declares the services it needs, for `Container.validate()`.
+ */
+export interface Consumer {
+    name: string;
+    inject: ServiceConstructor[];
+}
+
+/**
+ * Dependency injection `Container` class
+ *
+ * Manages the lifetimes of `Service` instances and the sharing between them and controllers.
+ *
+ * Key Features:
+ * - `singleton` services are created once, `transient` services on every resolution and `request`
+ *   services once per request scope (any object, usually the Express request).
+ * - Dependencies are declared with `static inject` on the service class and passed to its constructor in order.
+ * - `validate()` checks the whole graph up front: missing bindings, cycles, and singletons that would
+ *   capture a request-scoped service.
+ * - `override()` replaces any binding, e.g. with a fake in tests.
+ *
+ * Example:
+ * ```typescript
+ * class AuditService extends Service { static lifetime = 'request' as const; }
+ * class UsersService extends Service {
+ *     static inject = [AuditService];
+ *     constructor(private audit: AuditService) { super() }
+ * }
+ * ```
+ */
+export default class Container {
+    private bindings = new Map<ServiceConstructor, Binding>();
+    private overrides = new Map<ServiceConstructor, Binding>();
+    private singletons = new Map<ServiceConstructor, Service>();
+    private scopes = new WeakMap<object, Map<ServiceConstructor, Service>>();
+
+    /**
+     * Registers a service class using its static `lifetime` and `inject` declarations.
+     *
+     * @param ServiceClass - The service to register.
+     * @param lifetime - Overrides the class's static `lifetime`.
+     * @throws If the service declares `static persistence` but is not a singleton: only singletons are
+     * loaded at startup, so its properties would never be read or written.
+     */
+    public register<TargetService extends Service<any>>(ServiceClass: ServiceConstructor<TargetService>, lifetime?: Lifetime): this {
+        const dependencies = ServiceClass.inject ?? [];
+        const resolvedLifetime = lifetime ?? ServiceClass.lifetime ?? "singleton";
+        if (ServiceClass.persistence && resolvedLifetime !== "singleton") {
+            throw new Error(`[Container]: ${ServiceClass.name} declares static persistence but is ${resolvedLifetime}; only singleton services are persisted`);
+        }
+
+        this.bindings.set(ServiceClass, {
+            lifetime: resolvedLifetime,
+            dependencies,
+            create: (resolved) => new ServiceClass(...resolved),
+        });
+        return this;
+    }
+
+    /**
+     * Registers an existing instance as a singleton, e.g. a service built from startup state.
+     *
+     * @param ServiceClass - The class the instance is resolved by.
+     * @param instance - The instance.
+     */
+    public provide<TargetService extends Service<any>>(ServiceClass: ServiceConstructor<TargetService>, instance: TargetService): this {
+        this.bindings.set(ServiceClass, { lifetime: "singleton", dependencies: [], create: () => instance });
+        this.singletons.delete(ServiceClass);
+        return this;
+    }
+
+    /**
+     * Replaces the binding of a service, taking precedence over `register()`.
+     *
+     * @param ServiceClass - The service to replace.
+     * @param replacement - An instance (always returned as is) or a factory called per the lifetime.
+     * @param lifetime - Lifetime of a factory replacement. Defaults to `singleton`.
+     */
+    public override<TargetService extends Service<any>>(
+        ServiceClass: ServiceConstructor<TargetService>,
+        replacement: TargetService | (() => TargetService),
+        lifetime: Lifetime = "singleton"
+    ): this {
+        this.overrides.set(ServiceClass, typeof replacement === "function"
+            ? { lifetime, dependencies: [], create: replacement }
+            : { lifetime: "singleton", dependencies: [], create: () => replacement });
+        this.singletons.delete(ServiceClass);
+        return this;
+    }
+
+    /**
+     * Checks whether a service can be resolved.
+     */
+    public has(ServiceClass: ServiceConstructor): boolean {
+        return Boolean(this.findBinding(ServiceClass));
+    }
+
+    /**
+     * Checks whether a service was replaced with `override()`.
+     */
+    public isOverridden(ServiceClass: ServiceConstructor): boolean {
+        const found = this.findBinding(ServiceClass);
+        return Boolean(found && this.overrides.has(found[0]));
+    }
+
+    /**
+     * Returns the lifetime a service is resolved with, or `undefined` if it is not registered.
+     */
+    public lifetimeOf(ServiceClass: ServiceConstructor): Lifetime | undefined {
+        return this.findBinding(ServiceClass)?.[1].lifetime;
+    }
+
+    /**
+     * Returns the registered service classes.
+     */
+    public registered(): ServiceConstructor[] {
+        return [...new Set([...this.bindings.keys(), ...this.overrides.keys()])];
+    }
+
+    /**
+     * Returns the singleton instances created so far, in creation order: dependencies come before their dependents.
+     */
+    public instances(): Service[] {
+        return [...this.singletons.values()];
+    }
+
+    /**
+     * Finds the binding for a class. Falls back to the class name, because view modules loaded through
+     * `VDS` in development import their own copy of service classes.
+     */
+    private findBinding(ServiceClass: ServiceConstructor): [ServiceConstructor, Binding] | undefined {
+        for (const map of [this.overrides, this.bindings]) {
+            const binding = map.get(ServiceClass);
+            if (binding) return [ServiceClass, binding];
+        }
+        for (const map of [this.overrides, this.bindings]) {
+            for (const [key, binding] of map) {
+                if (key.name === ServiceClass.name) return [key, binding];
+            }
+        }
+    }
+
+    /**
+     * Resolves an instance of a service and its dependencies.
+     *
+     * @param ServiceClass - The service to resolve.
+     * @param scope - The request scope; required for request-scoped services and their dependents.
+     * @throws If the service is not registered, needs a missing scope, or depends on itself.
+     */
+    public resolve<TargetService extends Service<any>>(ServiceClass: ServiceConstructor<TargetService>, scope?: object): TargetService {
+        return this.resolveWithPath(ServiceClass, scope, []) as TargetService;
+    }
+
+    private resolveWithPath(ServiceClass: ServiceConstructor, scope: object | undefined, path: ServiceConstructor[]): Service {
+        const found = this.findBinding(ServiceClass);
+        if (!found) throw new Error(`[Container]: No binding registered for ${ServiceClass.name}`);
+
+        const [key, binding] = found;
+        if (path.includes(key)) {
+            throw new Error(`[Container]: Dependency cycle: ${[...path, key].map(({ name }) => name).join(" -> ")}`);
+        }
+
+        const cache = binding.lifetime === "singleton" ? this.singletons
+            : binding.lifetime === "request" ? this.scopeCache(key, scope)
+            : undefined;
+
+        const cached = cache?.get(key);
+        if (cached) return cached;
+
+        const dependencies = binding.dependencies.map((dependency) => this.resolveWithPath(dependency, scope, [...path, key]));
+        const instance = binding.create(dependencies);
+        cache?.set(key, instance);
+        return instance;
+    }
+
+    private scopeCache(ServiceClass: ServiceConstructor, scope: object | undefined): Map<ServiceConstructor, Service> {
+        if (!scope) throw new Error(`[Container]: ${ServiceClass.name} is request-scoped and must be resolved with a request`);
+
+        let cache = this.scopes.get(scope);
+        if (!cache) {
+            cache = new Map();
+            this.scopes.set(scope, cache);
+        }
+        return cache;
+    }
+
+    /**
+     * Validates the dependency graph of every registered service and of the given consumers.
+     *
+     * @param consumers - Other dependents, e.g. controllers with their `inject` lists.
+     * @throws A single error listing every missing binding, cycle and captive dependency.
+     */
+    public validate(consumers: Consumer[] = []): void {
+        const problems = new Set<string>();
+        const visited = new Set<ServiceConstructor>();
+
+        const visit = (ServiceClass: ServiceConstructor, path: ServiceConstructor[]) => {
+            if (visited.has(ServiceClass)) return;
+            if (path.includes(ServiceClass)) {
+                problems.add(`Dependency cycle: ${[...path, ServiceClass].map(({ name }) => name).join(" -> ")}`);
+                return;
+            }
+
+            const found = this.findBinding(ServiceClass);
+            if (!found) {
+                problems.add(`${path.at(-1)?.name ?? "?"} depends on ${ServiceClass.name}, which is not registered`);
+                return;
+            }
+
+            const [, binding] = found;
+            for (const dependency of binding.dependencies) {
+                if (binding.lifetime === "singleton" && this.lifetimeOf(dependency) === "request") {
+                    problems.add(`Singleton ${ServiceClass.name} cannot depend on request-scoped ${dependency.name}`);
+                }
+                visit(dependency, [...path, ServiceClass]);
+            }
+            visited.add(ServiceClass);
+        };
+
+        for (const ServiceClass of this.registered()) visit(ServiceClass, []);
+
+        for (const consumer of consumers) {
+            for (const dependency of consumer.inject) {
+                if (!this.has(dependency)) problems.add(`${consumer.name} depends on ${dependency.name}, which is not registered`);
+            }
+        }
+
+        if (problems.size) {
+            throw new Error(`[Container]: Invalid dependency graph:\n${[...problems].map((problem) => `  - ${problem}`).join("\n")}`);
+        }
+    }
+}
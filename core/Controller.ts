@@ -1,6 +1,24 @@
-import { Router } from "express";
+import express, { Request, RequestHandler, Router } from "express";
 import Service from "./Service.js";
-import { ControllerInit, RequestMethod, Route } from "./types.js";
+import Container from "./Container.js";
+import Logger from "./Logger.js";
+import Middleware from "./Middleware.js";
+import { validateRequest } from "./Schema.js";
+import { ValidationError } from "./HttpError.js";
+import AuthService, { authorize, getUser } from "./Auth.js";
+import SecurityService, { isUnsafeMethod } from "./Security.js";
+import { Channel } from "./Channel.js";
+import { ControllerConstructor, ControllerInit, Environment, RequestMethod, Route, RouteReport, RouteSchema, ServiceConstructor } from "./types.js";
+
+/**
+ * Identity helper that infers a route's schema, so `endpointFn` receives correctly typed input.
+ *
+ * @param route - The route definition.
+ * @returns The same route, typed against its schema.
+ */
+export function defineRoute<TSchema extends RouteSchema>(route: Route<TSchema>): Route<TSchema> {
+    return route;
+}
 
 /**
  * Abstract `Controller` class
@@ -13,8 +31,15 @@ import { ControllerInit, RequestMethod, Route } from "./types.js";
  * Key Features:
  * - Dynamic route registration from a `routes` array.
  * - Middleware support for handlers, validation, and custom error handling.
+ * - Controller-scoped and route-scoped `Middleware`, ordered by priority and filtered by environment.
+ * - `auth` and `roles` guards, per controller or per route, answering with a 401 or 403.
+ * - Per-route `rateLimit`, and CSRF checks of unsafe methods unless a route sets `csrf: false`.
+ * - Real-time `channels` over Server-Sent Events or WebSockets, broadcasting the changes of a `Service`.
+ * - Declarative `schema` validation of params, query, body and headers with a structured 400 response.
  * - Environment scoping to conditionally register routes based on `NODE_ENV`.
- * - Lifecycle hook `onRegister` for custom logic during route registration.
+ * - Services declared in `static inject` are resolved from the dependency injection container.
+ * - Lifecycle hook `onRegister` for custom logic during route registration, and `onInit`, `onReady` and
+ *   `onShutdown` for startup and shutdown work.
  *
  * Usage:
  * Extend this abstract class to create specific controllers for your application.
@@ -22,7 +47,13 @@ import { ControllerInit, RequestMethod, Route } from "./types.js";
  *
  * @template TargetService - The specific type of `Service` associated with this controller.
  */
-export default abstract class Controller<TargetService extends Service = Service> {
+export default abstract class Controller<TargetService extends Service<any> = Service<any>> {
+    /**
+     * Services this controller resolves with `resolve()`. They are checked at startup.
+     * Subclasses can override this property.
+     */
+    static inject: ServiceConstructor[] = [];
+
     /**
      * The service instance associated with this controller.
      */
@@ -33,15 +64,53 @@ export default abstract class Controller<TargetService extends Service = Service
      */
     protected router: Router;
 
+    /**
+     * Logger scoped to the controller's class name. Lines logged while handling a request carry its ID.
+     */
+    protected logger = new Logger(this.constructor.name);
+
+    /**
+     * The container injected services are resolved from.
+     */
+    private container?: Container;
+
+    /**
+     * The routes registered by the last call to `register()`.
+     */
+    private registered: Route[] = [];
+
+    /**
+     * What became of every route in the last call to `register()`.
+     */
+    private reports: RouteReport[] = [];
+
     /**
      * Initializes the `Controller` instance.
      *
-     * @param init - The initialization object containing the service and router.
+     * @param init - The initialization object containing the service, router and container.
      */
     constructor(init: ControllerInit<TargetService>) {
-        const { service, router } = init;
+        const { service, router, container } = init;
         this.service = service;
         this.router = router;
+        this.container = container;
+    }
+
+    /**
+     * Resolves one of the services declared in `static inject`.
+     *
+     * @param ServiceClass - The service to resolve.
+     * @param request - The current request; required for request-scoped services.
+     * @throws If the service is not declared in `inject` or cannot be resolved.
+     */
+    protected resolve<InjectedService extends Service<any>>(ServiceClass: ServiceConstructor<InjectedService>, request?: Request): InjectedService {
+        const { inject = [], name } = this.constructor as ControllerConstructor;
+        if (!inject.includes(ServiceClass)) {
+            throw new Error(`[Controller]: ${name} resolves ${ServiceClass.name} without declaring it in static inject`);
+        }
+        if (!this.container) throw new Error(`[Controller]: ${name} was created without a container`);
+
+        return this.container.resolve(ServiceClass, request);
     }
 
     /**
@@ -50,6 +119,30 @@ export default abstract class Controller<TargetService extends Service = Service
      */
     abstract routes: Route[];
 
+    /**
+     * Middleware run before every route of this controller, ahead of route-scoped middleware.
+     * Subclasses can override this property.
+     */
+    middleware: Middleware[] = [];
+
+    /**
+     * Whether every route of this controller requires an authenticated user, unless the route sets `auth: false`.
+     * Subclasses can override this property.
+     */
+    auth?: boolean;
+
+    /**
+     * Roles of which the user needs one for every route of this controller, unless the route sets its own
+     * `roles` or `auth: false`. Subclasses can override this property.
+     */
+    roles?: string[];
+
+    /**
+     * Real-time channels of this controller, registered as `GET` routes of their paths next to `routes`
+     * and closed on shutdown. Subclasses can override this property.
+     */
+    channels: Channel<any>[] = [];
+
     /**
      * Determines if a given string is a valid HTTP request method.
      *
@@ -60,42 +153,139 @@ export default abstract class Controller<TargetService extends Service = Service
         return ["get", "post", "put", "patch", "delete", "options"].includes(method) && method in Router;
     }
 
+    /**
+     * Returns the routes registered on the router, e.g. to document them.
+     */
+    public getRegisteredRoutes(): Route[] { return this.registered }
+
+    /**
+     * Returns what became of every route, registered or skipped, e.g. for the development dashboard.
+     */
+    public getRouteReports(): RouteReport[] { return this.reports }
+
+    /**
+     * Returns the declared routes, followed by the routes clients connect to the channels through.
+     */
+    public declaredRoutes(): Route[] {
+        return [...this.routes, ...this.channels.map((channel) => channel.toRoute())];
+    }
+
+    /**
+     * Ends every connection of the channels and stops their broadcasts.
+     */
+    public closeChannels() {
+        for (const channel of this.channels) channel.close();
+    }
+
+    /**
+     * Returns the roles a route requires the user to have one of: an empty list when any authenticated
+     * user may call it, or `undefined` when it is public.
+     */
+    public accessOf(route: Route): string[] | undefined {
+        if (route.auth === false) return undefined;
+
+        const roles = route.roles ?? this.roles ?? [];
+        return (route.auth ?? this.auth ?? roles.length > 0) ? roles : undefined;
+    }
+
+    /**
+     * Explains why a route does not apply, or returns `undefined` if it does.
+     */
+    private async skipReason({ envScope, shouldRegister }: Route, environments: (Environment | undefined)[]): Promise<string | undefined> {
+        // Skip route registration based on custom logic
+        if (shouldRegister && !(await shouldRegister())) return 'shouldRegister returned false';
+
+        // Skip route registration if the environment does not match
+        if (envScope && !environments.includes(envScope)) return `envScope is ${envScope}, running in ${environments.join(', ') || 'no environment'}`;
+    }
+
+    /**
+     * Returns the routes that apply: those scoped to one of the environments and passing their `shouldRegister` check.
+     *
+     * @param environments - The environments to keep scoped routes of. Defaults to the current `NODE_ENV`.
+     */
+    public async resolveRoutes(environments: (Environment | undefined)[] = [process.env.NODE_ENV as Environment]): Promise<Route[]> {
+        const routes: Route[] = [];
+        for (const route of this.declaredRoutes()) {
+            if (!(await this.skipReason(route, environments))) routes.push(route);
+        }
+        return routes;
+    }
+
     /**
      * Registers all routes defined in the `routes` array with the associated router.
      *
+     * - Enforces the `rateLimit`, then `auth` and `roles` right after the middleware, before the body is
+     *   parsed, and passes the user to `endpointFn`. Unsafe methods then check the CSRF token, and
+     *   WebSocket channels the `Origin` of the handshake.
      * - Applies validation middleware if `validationFn` is defined.
+     * - Enforces the route `schema`, raising a `ValidationError` (400) listing every failing field, and passes
+     *   the coerced input to `endpointFn`. Routes with a body schema get JSON and urlencoded body parsing.
+     * - Gives `errorFn` the first chance to answer an error; errors it does not answer are forwarded to
+     *   the application error handler.
      * - Supports asynchronous handlers and middleware.
+     * - Registers the route of every channel and subscribes it to its source service.
+     * - Runs controller-scoped, then route-scoped `Middleware` ahead of everything else, after their setup.
      * - Skips routes that do not match the current environment or fail the `shouldRegister` check.
-     * - Logs registered routes for debugging purposes.
+     * - Logs registered routes and their resolved middleware chain for debugging purposes, and keeps a report
+     *   of every route, with the reason skipped ones were skipped, for `getRouteReports()`.
      *
-     * @throws If an invalid HTTP method is used for a route.
+     * @param globalMiddleware - The resolved global chain running before this controller, used for logging.
+     * @throws If an invalid HTTP method is used for a route, or a route needs `SecurityService` and the
+     * controller was created without a container providing it, or a channel's source is not a singleton.
      */
-    public async register() {
+    public async register(globalMiddleware: Middleware[] = []) {
         this.onRegister?.(); // Lifecycle hook for subclasses
 
-        for (const route of this.routes) {
-            const { endpointFn, handlers, validationFn, errorFn, method, path, envScope, shouldRegister } = route;
+        this.registered = [];
+        this.reports = [];
+        for (const route of this.declaredRoutes()) {
+            const { endpointFn, handlers, validationFn, errorFn, method, path, envScope, schema, middleware, rateLimit } = route;
 
-            // Skip route registration based on custom logic
-            if (shouldRegister && !(await shouldRegister())) {
-                console.log(`[Controller]: Skipping route: ${method.toUpperCase()} ${path}`);
+            const reason = await this.skipReason(route, [process.env.NODE_ENV as Environment]);
+            if (reason) {
+                this.logger.debug(`Skipping route: ${method.toUpperCase()} ${path} (${reason})`);
+                this.reports.push({ method, path, envScope, status: 'skipped', reason, chain: [] });
                 continue;
             }
 
-            // Skip route registration if the environment does not match
-            if (envScope && envScope !== process.env.NODE_ENV) continue;
-
             // Validate HTTP method
             if (!this.isRequestMethod(method)) {
                 throw new Error(`[Controller]: Method: ${method} is not recognized as an HTTP method`);
             }
 
-            // Await and collect middleware
-            const awaitedHandlers = await Promise.all(handlers ?? []);
+            // Resolve and set up controller and route middleware
+            const chain = [...Middleware.resolve(this.middleware), ...Middleware.resolve(middleware ?? [])];
+            await Promise.all(chain.map((entry) => entry.prepare()));
+            const awaitedHandlers: RequestHandler[] = chain.map((entry) => entry.toHandler());
+
+            const security = this.container?.has(SecurityService) ? this.container.resolve(SecurityService) : undefined;
+            const checksCSRF = security ? security.checksCSRF(method, route.csrf) : route.csrf !== false && isUnsafeMethod(method);
+            const checksOrigin = route.channel === 'websocket';
+            if (!security && (rateLimit || checksCSRF || checksOrigin)) {
+                throw new Error(`[Controller]: ${method.toUpperCase()} ${path} needs SecurityService, but ${this.constructor.name} has no container providing it`);
+            }
+            if (rateLimit) awaitedHandlers.push(security!.rateLimit(rateLimit, `${method.toUpperCase()} ${path}`));
+
+            // Reject unauthenticated and unauthorized requests before any work is done for them
+            const roles = this.accessOf(route);
+            if (roles) {
+                const auth = this.container?.has(AuthService) ? this.container.resolve(AuthService) : undefined;
+                awaitedHandlers.push(authorize(roles, auth?.challenge));
+            }
+
+            // Parse bodies for routes that validate them; parsers skip already parsed requests
+            if (schema?.body) awaitedHandlers.push(express.json(), express.urlencoded({ extended: true }));
+
+            // Check the CSRF token of state-changing requests; form fields need the body parsed
+            if (checksCSRF) awaitedHandlers.push(...security!.verifyCSRF());
+
+            // Browsers send cookies with cross-site WebSocket handshakes, which are never CSRF checked
+            if (checksOrigin) awaitedHandlers.push(security!.verifyOrigin());
 
             // Apply validation middleware
             if (validationFn) {
-                awaitedHandlers.unshift(async (req, res, next) => {
+                awaitedHandlers.push(async (req, res, next) => {
                     try {
                         await validationFn(req);
                         next();
@@ -105,18 +295,50 @@ export default abstract class Controller<TargetService extends Service = Service
                 });
             }
 
+            // Await and collect handlers
+            const routeHandlers = await Promise.all(handlers ?? []);
+            awaitedHandlers.push(...routeHandlers);
+
             // Log route registration
-            console.log(`[Controller]: Registering route: ${method.toUpperCase()} ${path} (Env: ${envScope ?? "all"})`);
+            this.logger.debug(`Registering route: ${method.toUpperCase()} ${path} (Env: ${envScope ?? "all"})`);
+            this.logger.debug(`  Middleware: ${Middleware.describe([...globalMiddleware, ...chain])} -> ${handlers?.length ?? 0} handler(s) -> endpoint`);
 
             // Register the route with the router
             this.router[method](path, ...awaitedHandlers, async (req, res, next) => {
                 try {
-                    await endpointFn(req, res, next);
+                    const { input, issues } = validateRequest(schema ?? {}, req);
+                    if (issues.length) throw new ValidationError(issues);
+
+                    await endpointFn(req, res, next, { ...input, user: getUser(req) });
                 } catch (error) {
                     if (errorFn) await errorFn(error, req, res, next);
-                    next(error);
+                    if (!res.headersSent) next(error);
                 }
             });
+
+            this.registered.push(route);
+            this.reports.push({
+                method,
+                path,
+                envScope,
+                status: 'registered',
+                chain: [
+                    ...[...globalMiddleware, ...chain].map(({ name, priority }) => `${name}(${priority})`),
+                    ...(rateLimit ? [`rateLimit(${rateLimit.limit}/${rateLimit.window}ms)`] : []),
+                    ...(roles ? [roles.length ? `authorize(${roles.join(', ')})` : 'authorize'] : []),
+                    ...(schema?.body ? ['json', 'urlencoded'] : []),
+                    ...(checksCSRF ? ['csrf'] : []),
+                    ...(checksOrigin ? ['origin'] : []),
+                    ...(validationFn ? ['validationFn'] : []),
+                    ...routeHandlers.map((handler) => handler.name || 'handler'),
+                    schema ? 'schema -> endpointFn' : 'endpointFn',
+                ],
+            });
+        }
+
+        // Broadcast the source services of the channels that were registered
+        for (const channel of this.channels) {
+            if (this.registered.includes(channel.toRoute())) channel.bind(this.container);
         }
     }
 
@@ -125,4 +347,20 @@ export default abstract class Controller<TargetService extends Service = Service
      * Subclasses can override this method to implement custom logic during registration.
      */
     protected onRegister?(): void;
+
+    /**
+     * Lifecycle hook executed once the routes are registered, before the server accepts requests.
+     * A failure aborts startup. See `LifecycleHooks` for the order hooks run in.
+     */
+    public onInit?(): void | Promise<void>;
+
+    /**
+     * Lifecycle hook executed once the server accepts requests.
+     */
+    public onReady?(): void | Promise<void>;
+
+    /**
+     * Lifecycle hook executed on shutdown, once in-flight requests have drained.
+     */
+    public onShutdown?(): void | Promise<void>;
 }
@@ -1,9 +1,10 @@
-import serveStatic from "serve-static";
 import Controller from "./Controller";
 import { InlineConfig } from "vite";
-import { Router } from "express";
+import { RequestHandler, Router } from "express";
 import { Route } from "./types";
 import VDS from "./VDS";
+import { serveAssets } from "./Assets";
+import { applyNonce, getNonce } from "./Security";
 import path from "path";
 
 export class CoreController extends Controller {
@@ -11,46 +12,58 @@ export class CoreController extends Controller {
     private customVDSConfig?: InlineConfig;
     private VDS: VDS;
     private routesInternal: Route[];
+    private readonly productionDist: string;
+    private readonly productionEntryFile: string;
 
-    constructor(router: Router, template: string, customVDSConfig?: InlineConfig) {
+    /**
+     * @param router - The router to register the catch-all routes on.
+     * @param template - The page transformed by the VDS in development.
+     * @param customVDSConfig - Vite configuration for the VDS.
+     * @param dist - Absolute path of the production client bundle. Defaults to `dist` in the working directory.
+     */
+    constructor(router: Router, template: string, customVDSConfig?: InlineConfig, dist: string = path.resolve(process.cwd(), 'dist')) {
         super({ router });
 
+        this.productionDist = dist;
+        this.productionEntryFile = path.resolve(dist, 'index.html');
+
         this.customVDSConfig = customVDSConfig;
         this.template = template;
         this.VDS = new VDS(this.template, this.customVDSConfig);
 
+        const logRequest: RequestHandler = async (req, _, next) => { this.logger.debug(`Development Middleware: Serving ${req.url}`); next() };
+        // Resolved per request, so the ViteDevServer is only created once development traffic needs it
+        const viteMiddleware: RequestHandler = (req, res, next) => { this.VDS.getMiddleware().then((middleware) => middleware(req, res, next), next) };
+
         this.routesInternal = [
             {
-                handlers: [serveStatic(this.productionDist)],
+                handlers: serveAssets(this.productionDist, customVDSConfig?.build?.assetsDir),
                 envScope: 'production',
                 method: 'get',
                 path: '*',
-                errorFn: (error) => console.error('[Core]: Error serving in production: ', error),
+                errorFn: (error) => this.logger.error('Error serving in production', error),
                 endpointFn: (_, res, next) => {
                     res.sendFile(this.productionEntryFile, (error) => {
                         if (error) {
-                            console.error(`[Core]: Failed to serve index.html in production: ${error.message}`);
+                            this.logger.error(`Failed to serve index.html in production`, error);
                             next(error);
                         }
                     });
                 },
             },
             {
-                handlers: [
-                    async (req, _, next) => { console.log(`[CoreController]: Development Middleware: Serving ${req.url}`); next() },
-                    this.VDS.getMiddleware()
-                ],
+                handlers: [logRequest, viteMiddleware],
                 envScope: 'development',
                 method: 'get',
                 path: '*',
                 endpointFn: async (req, res, next) => {
                     const { originalUrl: targetURL } = req;
                     try {
-                        console.log(`[CoreController]: Transforming template for ${targetURL}`);
+                        this.logger.debug(`Transforming template for ${targetURL}`);
                         const template = await this.VDS.transformTemplate(targetURL);
-                        res.status(200).set({ 'Content-Type': 'text/html' }).end(template);
+                        res.status(200).set({ 'Content-Type': 'text/html' }).end(applyNonce(template, getNonce(req)));
                     } catch (error) {
-                        console.error(`[CoreController]: Error serving development template:`, error);
+                        this.logger.error(`Error serving development template`, error);
                         next(error);
                     }
                 },
@@ -60,8 +73,5 @@ export class CoreController extends Controller {
 
     get routes(): Route[] { return this.routesInternal }
 
-    private readonly productionDist: string = path.resolve(process.cwd(), 'dist');
-    private readonly productionEntryFile: string = path.resolve(this.productionDist, 'index.html');
-
     public getVDS() { return this.VDS }
 }
@@ -0,0 +1,191 @@
+import { pathToFileURL } from "url";
+import fs from "fs-extra";
+import path from "path";
+import Controller from "./Controller";
+import Logger from "./Logger";
+import Service from "./Service";
+import { ControllerConstructor, ControllerRegistration, ServiceConstructor, ViewMap } from "./types";
+import { isViewEntry } from "./View";
+
+const logger = new Logger("Discovery");
+
+/**
+ * Everything found in the project folders, ready to be handed to `AppRouter`.
+ */
+export interface DiscoveryResult {
+    controllers: ControllerRegistration[];
+    services: ServiceConstructor[];
+    viewMap: ViewMap;
+    /**
+     * The module (relative to the project root) each view path was found in.
+     */
+    viewSources: Record<string, string>;
+}
+
+interface DiscoveredModule {
+    file: string;
+    exports: Record<string, unknown>;
+}
+
+/**
+ * Convention-based discovery of controllers, services and views.
+ *
+ * Scans the same folders that are aliased in `vite.config.ts` and watched in `nodemon.json`:
+ * - `_services`: every exported `Service` subclass, to be registered in the container.
+ * - `_controllers`: every exported `Controller` subclass, paired with the service sharing its
+ *   base name (`UsersController` receives `UsersService`).
+ * - `_views`: every exported `ViewMap` is merged into a single map.
+ *
+ * The same class or map re-exported from several modules (e.g. through a barrel) is only registered once.
+ * Conflicts — two services or controllers with the same name, or two views claiming the same path —
+ * are collected and reported together as a startup error.
+ */
+export default class Discovery {
+    private static readonly folders = {
+        controllers: "_controllers",
+        services: "_services",
+        views: "_views",
+    };
+
+    private static readonly extensions = [".ts", ".tsx", ".js", ".jsx"];
+
+    constructor(private readonly root: string = process.cwd()) { }
+
+    /**
+     * Recursively lists the source modules of a folder, skipping declaration files.
+     *
+     * @param folder - The folder to scan, relative to the project root.
+     * @returns Absolute paths of the modules, sorted for a stable registration order.
+     */
+    private async listModules(folder: string): Promise<string[]> {
+        const directory = path.resolve(this.root, folder);
+        if (!(await fs.pathExists(directory))) return [];
+
+        const modules: string[] = [];
+        for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+            const target = path.join(directory, entry.name);
+            if (entry.isDirectory()) modules.push(...(await this.listModules(path.relative(this.root, target))));
+            else if (Discovery.extensions.includes(path.extname(entry.name)) && !entry.name.endsWith(".d.ts")) modules.push(target);
+        }
+
+        return modules.sort();
+    }
+
+    /**
+     * Imports every module of a folder.
+     */
+    private async importModules(folder: string): Promise<DiscoveredModule[]> {
+        const modules: DiscoveredModule[] = [];
+        for (const file of await this.listModules(folder)) {
+            modules.push({ file: path.relative(this.root, file), exports: await import(pathToFileURL(file).href) });
+        }
+        return modules;
+    }
+
+    /**
+     * Checks whether a value is a `ViewMap`: a plain object mapping `/paths` to components or view definitions.
+     */
+    private isViewMap(value: unknown): value is ViewMap {
+        if (!value || typeof value !== "object" || Object.getPrototypeOf(value) !== Object.prototype) return false;
+        const entries = Object.entries(value);
+        return entries.length > 0 && entries.every(([key, entry]) => key.startsWith("/") && isViewEntry(entry));
+    }
+
+    /**
+     * Name used to pair controllers with services: the class name, falling back to the export name.
+     */
+    private baseName(value: Function, exportName: string, suffix: string): string {
+        const name = value.name || exportName;
+        return name.endsWith(suffix) && name !== suffix ? name.slice(0, -suffix.length) : name;
+    }
+
+    /**
+     * Throws a single startup error listing every conflict.
+     */
+    private assertNoConflicts(conflicts: string[]) {
+        if (conflicts.length) {
+            throw new Error(`[Discovery]: Found ${conflicts.length} conflict(s):\n${conflicts.map((conflict) => `  - ${conflict}`).join("\n")}`);
+        }
+    }
+
+    /**
+     * Collects every `ViewMap` exported from `_views`, recording conflicting paths.
+     */
+    private async collectViews(conflicts: string[]): Promise<Pick<DiscoveryResult, "viewMap" | "viewSources">> {
+        const viewMap: ViewMap = {};
+        const viewSources: Record<string, string> = {};
+        const viewOwners = new Map<string, { entry: ViewMap[string]; file: string }>();
+        for (const { file, exports } of await this.importModules(Discovery.folders.views)) {
+            for (const value of Object.values(exports)) {
+                if (!this.isViewMap(value)) continue;
+
+                for (const [viewPath, entry] of Object.entries(value)) {
+                    const existing = viewOwners.get(viewPath);
+                    if (existing && existing.entry !== entry) conflicts.push(`View path "${viewPath}" is claimed by both ${existing.file} and ${file}`);
+                    else if (!existing) {
+                        viewOwners.set(viewPath, { entry, file });
+                        viewMap[viewPath] = entry;
+                        viewSources[viewPath] = file;
+                    }
+                }
+            }
+        }
+
+        return { viewMap, viewSources };
+    }
+
+    /**
+     * Scans `_views` only, e.g. to generate the client entry at build time.
+     *
+     * @throws If two views claim the same path.
+     */
+    public async discoverViews(): Promise<Pick<DiscoveryResult, "viewMap" | "viewSources">> {
+        const conflicts: string[] = [];
+        const views = await this.collectViews(conflicts);
+        this.assertNoConflicts(conflicts);
+        return views;
+    }
+
+    /**
+     * Scans the project folders and collects what it finds.
+     *
+     * @throws If any conflicts were found.
+     */
+    public async discover(): Promise<DiscoveryResult> {
+        const conflicts: string[] = [];
+
+        const serviceClasses = new Map<string, { ServiceClass: ServiceConstructor; file: string }>();
+        for (const { file, exports } of await this.importModules(Discovery.folders.services)) {
+            for (const [exportName, value] of Object.entries(exports)) {
+                if (typeof value !== "function" || !(value.prototype instanceof Service)) continue;
+
+                const name = this.baseName(value, exportName, "Service");
+                const existing = serviceClasses.get(name);
+                if (existing && existing.ServiceClass !== value) conflicts.push(`Service "${name}" is exported by both ${existing.file} and ${file}`);
+                else if (!existing) serviceClasses.set(name, { ServiceClass: value as ServiceConstructor, file });
+            }
+        }
+
+        const controllerClasses = new Map<string, { ControllerClass: ControllerConstructor; file: string }>();
+        for (const { file, exports } of await this.importModules(Discovery.folders.controllers)) {
+            for (const [exportName, value] of Object.entries(exports)) {
+                if (typeof value !== "function" || !(value.prototype instanceof Controller)) continue;
+
+                const name = this.baseName(value, exportName, "Controller");
+                const existing = controllerClasses.get(name);
+                if (existing && existing.ControllerClass !== value) conflicts.push(`Controller "${name}" is exported by both ${existing.file} and ${file}`);
+                else if (!existing) controllerClasses.set(name, { ControllerClass: value as ControllerConstructor, file });
+            }
+        }
+
+        const { viewMap, viewSources } = await this.collectViews(conflicts);
+
+        this.assertNoConflicts(conflicts);
+
+        const services = [...serviceClasses.values()].map(({ ServiceClass }) => ServiceClass);
+        const controllers = [...controllerClasses].map(([name, { ControllerClass }]) => ({ ControllerClass, service: serviceClasses.get(name)?.ServiceClass }));
+
+        logger.info(`Found ${services.length} service(s), ${controllers.length} controller(s) and ${Object.keys(viewMap).length} view path(s)`);
+        return { controllers, services, viewMap, viewSources };
+    }
+}
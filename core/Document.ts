@@ -0,0 +1,55 @@
+import { ComponentType, createElement, ReactNode } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+
+export interface DocumentProps {
+    /**
+     * The root container views render into. Must be rendered inside `<body>`.
+     */
+    children: ReactNode;
+}
+
+/**
+ * The default page of the application. Replace it with the `document` setting of `movico.config.ts`
+ * to add stylesheets, fonts or markup around the root container.
+ *
+ * The document is rendered once into the page template, without state or effects. The title, `lang`,
+ * `dir`, meta and link tags it sets are the defaults that views override with their `head`.
+ *
+ * Example:
+ * ```tsx
+ * export function AppDocument({ children }: DocumentProps) {
+ *     return (
+ *         <html lang="de">
+ *             <head>
+ *                 <meta charSet="UTF-8" />
+ *                 <title>Shop</title>
+ *                 <link rel="stylesheet" href="/styles.css" />
+ *             </head>
+ *             <body>{children}</body>
+ *         </html>
+ *     );
+ * }
+ * ```
+ */
+export function Document({ children }: DocumentProps) {
+    return createElement("html", { lang: "en" },
+        createElement("head", null,
+            createElement("meta", { charSet: "UTF-8" }),
+            createElement("meta", { name: "viewport", content: "width=device-width, initial-scale=1.0" }),
+            createElement("title", null, "Movico App")
+        ),
+        createElement("body", null, children)
+    );
+}
+
+/**
+ * Renders a document component into a page template, with the root container views render into.
+ */
+export function renderDocument(DocumentComponent: ComponentType<DocumentProps>): string {
+    return `<!DOCTYPE html>${renderToStaticMarkup(createElement(DocumentComponent, null, createElement("div", { id: "root" })))}`;
+}
+
+/**
+ * The page views render into when the configuration sets neither a template nor a document.
+ */
+export const DEFAULT_TEMPLATE = renderDocument(Document);
@@ -0,0 +1,136 @@
+import { HeadAttributes, HeadTags, ViewDefinition } from "./types";
+import { escapeHtml, serializeLoaderData } from "./View";
+
+/**
+ * Id of the `<script type="application/json">` element carrying the title, `lang` and `dir` of the page
+ * template, restored on the client when navigating to a view that does not set them.
+ */
+export const HEAD_DEFAULTS_ID = "__MOVICO_HEAD__";
+
+/**
+ * Marks the `<meta>` and `<link>` tags added for a view, so the client can replace them on navigation.
+ * Tags of the page template are left alone.
+ */
+export const HEAD_TAG_ATTRIBUTE = "data-movico-head";
+
+/**
+ * The head values of the page template.
+ */
+export interface HeadDefaults {
+    title?: string;
+    lang?: string;
+    dir?: string;
+}
+
+/**
+ * A `<meta>` or `<link>` tag to add to the head.
+ */
+export interface HeadElement {
+    tag: "meta" | "link";
+    attributes: HeadAttributes;
+}
+
+/**
+ * Resolves a view's head for its loader data.
+ */
+export function resolveHead(view: ViewDefinition, data: unknown): HeadTags {
+    return (typeof view.head === "function" ? view.head(data) : view.head) ?? {};
+}
+
+/**
+ * Lists the tags a head adds: the description, the custom meta tags, the OpenGraph properties and the links.
+ */
+export function headElements(head: HeadTags): HeadElement[] {
+    const meta: HeadAttributes[] = [
+        ...(head.description !== undefined ? [{ name: "description", content: head.description }] : []),
+        ...(head.meta ?? []),
+        ...Object.entries(head.openGraph ?? {}).flatMap(([key, content]) => content === undefined ? [] : [{
+            property: `og:${key.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`)}`,
+            content,
+        }]),
+    ];
+
+    return [
+        ...meta.map((attributes): HeadElement => ({ tag: "meta", attributes })),
+        ...(head.link ?? []).map((attributes): HeadElement => ({ tag: "link", attributes })),
+    ];
+}
+
+function decodeHtml(text: string): string {
+    return text.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, "&");
+}
+
+/**
+ * Matches an attribute of a tag, quoted or not.
+ */
+function attributePattern(name: string): RegExp {
+    return new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i");
+}
+
+/**
+ * Renders a view's head into a page: sets the title and the `lang` and `dir` of `<html>`, and adds the
+ * view's tags and the template defaults before `</head>`.
+ *
+ * @param template - The page, with its `<html>` and `<head>` tags.
+ * @param head - The resolved head of the view.
+ */
+export function injectHead(template: string, head: HeadTags): string {
+    const titleMatch = /<title>([\s\S]*?)<\/title>/i.exec(template);
+    const htmlMatch = /<html\b[^>]*>/i.exec(template);
+    const readAttribute = (name: string) => {
+        const match = htmlMatch && attributePattern(name).exec(htmlMatch[0]);
+        return match ? decodeHtml(match[1] ?? match[2] ?? match[3]) : undefined;
+    };
+    const defaults: HeadDefaults = { title: titleMatch ? decodeHtml(titleMatch[1]) : undefined, lang: readAttribute("lang"), dir: readAttribute("dir") };
+
+    let page = template;
+    if (htmlMatch && (head.lang !== undefined || head.dir !== undefined)) {
+        let html = htmlMatch[0];
+        for (const name of ["lang", "dir"] as const) {
+            if (head[name] === undefined) continue;
+            const attribute = ` ${name}="${escapeHtml(head[name]!)}"`;
+            html = html.replace(attributePattern(name), "").replace(/^<html\b/i, (tag) => `${tag}${attribute}`);
+        }
+        page = page.replace(htmlMatch[0], () => html);
+    }
+
+    const title = head.title !== undefined ? `<title>${escapeHtml(head.title)}</title>` : "";
+    if (title && titleMatch) page = page.replace(titleMatch[0], () => title);
+
+    const tags = headElements(head).map(({ tag, attributes }) => {
+        const rendered = Object.entries(attributes).map(([name, value]) => ` ${name}="${escapeHtml(value)}"`).join("");
+        return `<${tag} ${HEAD_TAG_ATTRIBUTE}${rendered}>`;
+    });
+
+    // Replaced through a function, so `$` patterns in the values are not expanded
+    const additions = `${titleMatch ? "" : title}${tags.join("")}<script id="${HEAD_DEFAULTS_ID}" type="application/json">${serializeLoaderData(defaults)}</script>`;
+    return page.replace("</head>", () => `${additions}</head>`);
+}
+
+let templateDefaults: HeadDefaults | undefined;
+
+/**
+ * Applies a view's head to the document on the client, restoring the template values it does not set
+ * and replacing the tags of the previous view.
+ */
+export function updateDocumentHead(head: HeadTags) {
+    if (!templateDefaults) {
+        const element = document.getElementById(HEAD_DEFAULTS_ID);
+        templateDefaults = element?.textContent ? JSON.parse(element.textContent) as HeadDefaults : { title: document.title };
+    }
+
+    document.title = head.title ?? templateDefaults.title ?? "";
+    for (const name of ["lang", "dir"] as const) {
+        const value = head[name] ?? templateDefaults[name];
+        if (value === undefined) document.documentElement.removeAttribute(name);
+        else document.documentElement.setAttribute(name, value);
+    }
+
+    document.head.querySelectorAll(`[${HEAD_TAG_ATTRIBUTE}]`).forEach((element) => element.remove());
+    for (const { tag, attributes } of headElements(head)) {
+        const element = document.createElement(tag);
+        element.setAttribute(HEAD_TAG_ATTRIBUTE, "");
+        for (const [name, value] of Object.entries(attributes)) element.setAttribute(name, value);
+        document.head.appendChild(element);
+    }
+}
@@ -0,0 +1,140 @@
+import http from "http";
+import { ValidationIssue } from "./types";
+
+/**
+ * Body of an `application/problem+json` response (RFC 9457).
+ */
+export interface ProblemDetails {
+    type: string;
+    title: string;
+    status: number;
+    detail?: string;
+    instance?: string;
+    [extension: string]: unknown;
+}
+
+/**
+ * `HttpError` class
+ *
+ * Base class for errors that map to an HTTP status. Throw one (or pass it to `next`) from an endpoint,
+ * middleware or view loader and the application error handler answers with the matching status:
+ * `application/problem+json` for API callers, the error or 404 view for page requests.
+ *
+ * The message of a 4xx error is shown to the client. The message of a 5xx error is only shown
+ * outside production.
+ */
+export class HttpError extends Error {
+    /**
+     * Whether `message` may be shown to the client in production.
+     */
+    public readonly expose: boolean;
+
+    /**
+     * @param status - The HTTP status code.
+     * @param title - Short, generic summary of the status, e.g. `Not Found`.
+     * @param message - Explanation specific to this occurrence. Defaults to the title.
+     * @param extensions - Extra members added to the problem details.
+     */
+    constructor(
+        public readonly status: number,
+        public readonly title: string,
+        message: string = title,
+        public readonly extensions: Record<string, unknown> = {}
+    ) {
+        super(message);
+        this.name = new.target.name;
+        this.expose = status < 500;
+    }
+
+    /**
+     * Builds the problem details for this error.
+     *
+     * @param instance - The URL of the request that failed.
+     * @param includeStack - Whether to add the stack trace (never in production).
+     */
+    public toProblem(instance?: string, includeStack = false): ProblemDetails {
+        return {
+            type: "about:blank",
+            title: this.title,
+            status: this.status,
+            detail: this.expose || includeStack ? this.message : this.title,
+            instance,
+            ...this.extensions,
+            ...(includeStack ? { stack: this.stack } : {}),
+        };
+    }
+
+    /**
+     * Normalizes anything thrown into an `HttpError`; unknown errors become a 500 that keeps the original stack.
+     */
+    public static from(error: unknown): HttpError {
+        if (error instanceof HttpError) return error;
+
+        const original = error instanceof Error ? error : new Error(String(error));
+        const status = Number((original as { status?: unknown }).status ?? (original as { statusCode?: unknown }).statusCode);
+
+        // Errors from Express middleware such as body-parser carry a 4xx status
+        const wrapped = status >= 400 && status < 600 ? new HttpError(status, http.STATUS_CODES[status] ?? original.name, original.message) : new InternalServerError(original.message);
+        wrapped.stack = original.stack;
+        return wrapped;
+    }
+}
+
+export class BadRequestError extends HttpError {
+    constructor(message?: string, extensions?: Record<string, unknown>) { super(400, "Bad Request", message, extensions) }
+}
+
+export class UnauthorizedError extends HttpError {
+    constructor(message?: string, extensions?: Record<string, unknown>) { super(401, "Unauthorized", message, extensions) }
+}
+
+export class ForbiddenError extends HttpError {
+    constructor(message?: string, extensions?: Record<string, unknown>) { super(403, "Forbidden", message, extensions) }
+}
+
+export class NotFoundError extends HttpError {
+    constructor(message?: string, extensions?: Record<string, unknown>) { super(404, "Not Found", message, extensions) }
+}
+
+export class MethodNotAllowedError extends HttpError {
+    constructor(message?: string, extensions?: Record<string, unknown>) { super(405, "Method Not Allowed", message, extensions) }
+}
+
+export class ConflictError extends HttpError {
+    constructor(message?: string, extensions?: Record<string, unknown>) { super(409, "Conflict", message, extensions) }
+}
+
+export class UnprocessableEntityError extends HttpError {
+    constructor(message?: string, extensions?: Record<string, unknown>) { super(422, "Unprocessable Entity", message, extensions) }
+}
+
+export class TooManyRequestsError extends HttpError {
+    constructor(message?: string, extensions?: Record<string, unknown>) { super(429, "Too Many Requests", message, extensions) }
+}
+
+export class InternalServerError extends HttpError {
+    constructor(message?: string, extensions?: Record<string, unknown>) { super(500, "Internal Server Error", message, extensions) }
+}
+
+export class ServiceUnavailableError extends HttpError {
+    constructor(message?: string, extensions?: Record<string, unknown>) { super(503, "Service Unavailable", message, extensions) }
+}
+
+/**
+ * A 400 raised when a request fails its route `schema`. Lists every failing field in `issues`.
+ */
+export class ValidationError extends BadRequestError {
+    constructor(public readonly issues: ValidationIssue[]) {
+        super("Request validation failed", { issues });
+    }
+}
+
+/**
+ * A 422 raised when a change to a `Service` fails a schema, validator or rule. Each issue names the
+ * property in `path` and the failing check in `rule`.
+ */
+export class ServiceValidationError extends UnprocessableEntityError {
+    constructor(public readonly service: string, public readonly issues: ValidationIssue[]) {
+        super(`Validation failed for ${service}: ${issues.map(({ path, message, rule }) => `${path || "*"}: ${message} (${rule})`).join("; ")}`, { issues });
+    }
+}
@@ -0,0 +1,196 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { performance } from "perf_hooks";
+import { getRequestId } from "./RequestContext";
+import { RouteReport } from "./types";
+import { escapeHtml } from "./View";
+
+/**
+ * A request answered by the application, as shown on the development dashboard.
+ */
+export interface RecordedRequest {
+    method: string;
+    url: string;
+    status: number;
+    /**
+     * Milliseconds from the first handler until the response finished.
+     */
+    duration: number;
+    time: string;
+    requestId?: string;
+    /**
+     * The path of the route or view that answered, `*` for the `CoreController` catch-all, or
+     * `undefined` when no route matched.
+     */
+    route?: string;
+}
+
+/**
+ * A route of a controller, with the earlier route answering its requests first, if any.
+ */
+export interface IntrospectedRoute extends RouteReport {
+    controller: string;
+    shadowedBy?: string;
+}
+
+export interface IntrospectedView {
+    path: string;
+    streaming: boolean;
+    /**
+     * The file the view was discovered in.
+     */
+    source?: string;
+    /**
+     * Error views are not routed but rendered by the error handler.
+     */
+    reserved: boolean;
+    shadowedBy?: string;
+}
+
+export interface IntrospectionReport {
+    environment: string;
+    vds: string;
+    controllers: { name: string; routes: IntrospectedRoute[] }[];
+    views: IntrospectedView[];
+    requests: RecordedRequest[];
+}
+
+/**
+ * Whether a route answers the requests of another before they reach it: same method and path, or a catch-all.
+ */
+function shadows(earlier: { method: string; path: string }, later: { method: string; path: string }): boolean {
+    return earlier.method === later.method && (earlier.path === later.path || earlier.path === "*");
+}
+
+/**
+ * Keeps the most recent requests with their timing.
+ */
+export class RequestLog {
+    private entries: RecordedRequest[] = [];
+
+    /**
+     * @param limit - How many requests to keep.
+     * @param ignore - Requests not worth keeping, e.g. Vite's module and asset requests.
+     */
+    constructor(private readonly limit: number = 50, private readonly ignore: RegExp = /^\/(@|node_modules\/|__movico)/) { }
+
+    /**
+     * Returns the recorded requests, newest first.
+     */
+    public getRequests(): RecordedRequest[] { return [...this.entries] }
+
+    /**
+     * Returns middleware recording every request once its response finishes. Mount it ahead of everything else.
+     */
+    public middleware(): RequestHandler {
+        return (req: Request, res: Response, next: NextFunction) => {
+            if (this.ignore.test(req.path)) return next();
+
+            const start = performance.now();
+            res.on("finish", () => {
+                this.entries.unshift({
+                    method: req.method,
+                    url: req.originalUrl,
+                    status: res.statusCode,
+                    duration: Math.round((performance.now() - start) * 10) / 10,
+                    time: new Date().toISOString(),
+                    requestId: getRequestId(req),
+                    route: req.route?.path,
+                });
+                this.entries.length = Math.min(this.entries.length, this.limit);
+            });
+            next();
+        };
+    }
+}
+
+/**
+ * The routes one controller reported, see `Controller.getRouteReports()`.
+ */
+export interface ControllerRoutes {
+    name: string;
+    routes: RouteReport[];
+}
+
+/**
+ * Builds the dashboard report, marking routes and views that never get a request because an earlier route answers it.
+ * Controllers are routed first, then views, then the `CoreController` catch-all.
+ */
+export function buildIntrospectionReport({ controllers, core, views, vds, requests }: {
+    controllers: ControllerRoutes[];
+    core: ControllerRoutes;
+    views: Omit<IntrospectedView, "shadowedBy">[];
+    vds: string;
+    requests: RecordedRequest[];
+}): IntrospectionReport {
+    const claimed: { method: string; path: string; owner: string }[] = [];
+    const claim = (method: string, path: string, owner: string) => {
+        const earlier = claimed.find((entry) => shadows(entry, { method, path }));
+        claimed.push({ method, path, owner });
+        return earlier && `${earlier.owner} ${earlier.method.toUpperCase()} ${earlier.path}`;
+    };
+
+    const report = ({ name, routes }: ControllerRoutes) => ({
+        name,
+        routes: routes.map((route): IntrospectedRoute => ({
+            ...route,
+            controller: name,
+            shadowedBy: route.status === "registered" ? claim(route.method, route.path, name) : undefined,
+        })),
+    });
+
+    // Claimed in routing order, so only earlier routes shadow later ones
+    const controllerReports = controllers.map(report);
+    const viewReports = views.map((view) => ({ ...view, shadowedBy: view.reserved ? undefined : claim("get", view.path, "View") }));
+
+    return {
+        environment: process.env.NODE_ENV ?? "development",
+        vds,
+        controllers: [...controllerReports, report(core)],
+        views: viewReports,
+        requests,
+    };
+}
+
+/**
+ * Renders the development dashboard for a report. It loads nothing from the network.
+ *
+ * @param report - The introspection report.
+ * @param jsonPath - The URL the JSON report is served at, linked from the page.
+ */
+export function renderIntrospectionPage(report: IntrospectionReport, jsonPath: string): string {
+    const row = (cells: string[]) => `<tr>${cells.map((cell) => `<td>${cell}</td>`).join("")}</tr>`;
+    const code = (value: string) => `<code>${escapeHtml(value)}</code>`;
+
+    const controllers = report.controllers.map(({ name, routes }) => `<h3>${escapeHtml(name)}</h3>`
+        + (routes.length ? `<table>${routes.map((route) => row([
+            `<b class="${route.status}">${escapeHtml(route.status)}</b>`,
+            code(`${route.method.toUpperCase()} ${route.path}`),
+            escapeHtml(route.envScope ?? "all"),
+            route.status === "skipped"
+                ? escapeHtml(route.reason ?? "")
+                : `${route.chain.map(code).join(" &rarr; ")}${route.shadowedBy ? ` <b class="skipped">shadowed by ${escapeHtml(route.shadowedBy)}</b>` : ""}`,
+        ])).join("")}</table>` : "<p>No routes.</p>")).join("");
+
+    const views = report.views.length ? `<table>${report.views.map((view) => row([
+        code(view.path),
+        escapeHtml(view.reserved ? "error page" : view.streaming ? "streaming" : "buffered"),
+        escapeHtml(view.source ?? ""),
+        view.shadowedBy ? `<b class="skipped">shadowed by ${escapeHtml(view.shadowedBy)}</b>` : "",
+    ])).join("")}</table>` : "<p>The View Map is empty.</p>";
+
+    const requests = report.requests.length ? `<table>${report.requests.map((request) => row([
+        escapeHtml(request.time.slice(11, 23)),
+        code(`${request.method} ${request.url}`),
+        `<small>${escapeHtml(request.requestId ?? "")}</small>`,
+        `<b class="${request.status >= 400 ? "skipped" : "registered"}">${request.status}</b>`,
+        `${request.duration} ms`,
+        escapeHtml(request.route === "*" ? "CoreController catch-all" : request.route ?? "no route matched"),
+    ])).join("")}</table>` : "<p>No requests yet.</p>";
+
+    return `<!DOCTYPE html><html lang="en"><head><meta charset="UTF-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"><title>Movico dashboard</title>`
+        + `<style>body{font-family:system-ui,sans-serif;max-width:1200px;margin:2rem auto;padding:0 1rem}table{border-collapse:collapse;width:100%}td{padding:.2rem .5rem;border-bottom:1px solid #eee;vertical-align:top}`
+        + `b.registered{color:#2b7}b.skipped{color:#b22}small{color:#777}</style></head>`
+        + `<body><h1>Movico dashboard <small>${escapeHtml(report.environment)} &middot; VDS ${escapeHtml(report.vds)}</small></h1>`
+        + `<p><a href="${escapeHtml(jsonPath)}">Report (JSON)</a> &middot; Reload the page to refresh.</p>`
+        + `<h2>Controllers</h2>${controllers || "<p>No controllers registered.</p>"}<h2>Views</h2>${views}<h2>Recent requests</h2>${requests}</body></html>`;
+}
@@ -0,0 +1,180 @@
+/**
+ * Log levels, from the most to the least verbose.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVELS: Record<LogLevel | 'silent', number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+/**
+ * One log line, as handed to a `LogSink`.
+ */
+export interface LogRecord {
+    /**
+     * ISO timestamp.
+     */
+    time: string;
+    level: LogLevel;
+    /**
+     * What logged the line, e.g. `Router` or a controller's class name.
+     */
+    scope: string;
+    message: string;
+    /**
+     * The ID of the request being handled when the line was logged, if any.
+     */
+    requestId?: string;
+    data?: Record<string, unknown>;
+    error?: { name: string; message: string; stack?: string };
+}
+
+/**
+ * Receives every record at or above the configured level, e.g. to ship logs to a collector.
+ */
+export type LogSink = (record: LogRecord) => void;
+
+export interface LoggerOptions {
+    /**
+     * The least severe level written. Defaults to the `LOG_LEVEL` environment variable, or `debug` in
+     * development and `info` otherwise.
+     */
+    level?: LogLevel | 'silent';
+    /**
+     * `pretty` for people, `json` for one JSON object per line. Defaults to `pretty` in development and `json` otherwise.
+     */
+    format?: 'pretty' | 'json';
+    /**
+     * Replaces the console output of the format.
+     */
+    sink?: LogSink;
+    /**
+     * Whether every request is logged with its status and latency once it finishes. Defaults to `true`.
+     */
+    accessLog?: boolean;
+}
+
+/**
+ * Reads an environment variable; `process` does not exist when services and views run in the browser.
+ */
+function env(name: string): string | undefined {
+    return typeof process === 'undefined' ? undefined : process.env[name];
+}
+
+const COLORS: Record<LogLevel, string> = { debug: '\x1b[90m', info: '\x1b[36m', warn: '\x1b[33m', error: '\x1b[31m' };
+
+/**
+ * Writes records as readable, colored lines: `12:00:00.000 INFO  [Router] message (requestId) {data}`.
+ */
+export const prettySink: LogSink = (record) => {
+    const { time, level, scope, message, requestId, data, error } = record;
+    const color = typeof process !== 'undefined' && process.stdout?.isTTY;
+    const label = level.toUpperCase().padEnd(5);
+
+    const line = `${time.slice(11, 23)} ${color ? `${COLORS[level]}${label}\x1b[0m` : label} [${scope}] ${message}`
+        + (requestId ? ` (${requestId})` : '')
+        + (data ? ` ${JSON.stringify(data)}` : '')
+        + (error ? `\n${error.stack ?? `${error.name}: ${error.message}`}` : '');
+
+    if (level === 'error' || level === 'warn') console.error(line);
+    else console.log(line);
+};
+
+/**
+ * Writes records as JSON lines, for log collectors.
+ */
+export const jsonSink: LogSink = (record) => { console.log(JSON.stringify(record)) };
+
+/**
+ * `Logger` class
+ *
+ * Leveled, structured logging for the framework and applications. Every logger has a scope naming what
+ * logs through it; records carry the ID of the request being handled, so lines logged by controllers,
+ * services and view rendering for one request can be correlated.
+ *
+ * Output is configured once for the whole application with `Logger.configure()`.
+ *
+ * Example:
+ * ```typescript
+ * Logger.configure({ level: 'warn', sink: (record) => collector.push(record) });
+ *
+ * const logger = new Logger('Billing');
+ * logger.info('Invoice sent', { invoiceId });
+ * logger.error('Payment failed', error);
+ * ```
+ */
+export default class Logger {
+    private static options: LoggerOptions = {};
+    private static context?: () => { requestId?: string } | undefined;
+
+    /**
+     * @param scope - What logs through this logger, shown with every line.
+     */
+    constructor(public readonly scope: string) { }
+
+    /**
+     * Changes the output of every logger. Options not given keep their current value.
+     */
+    public static configure(options: LoggerOptions) {
+        Logger.options = { ...Logger.options, ...options };
+    }
+
+    /**
+     * Returns the current options, with defaults filled in.
+     */
+    public static getOptions(): Required<Omit<LoggerOptions, 'sink'>> & Pick<LoggerOptions, 'sink'> {
+        const development = env('NODE_ENV') === 'development';
+        const { level = (env('LOG_LEVEL') as LogLevel | undefined) ?? (development ? 'debug' : 'info'), format = development ? 'pretty' : 'json', accessLog = true, sink } = Logger.options;
+        return { level, format, accessLog, sink };
+    }
+
+    /**
+     * Sets where the ID of the current request comes from. Called by the server; in the browser there is none.
+     */
+    public static useContext(provider: () => { requestId?: string } | undefined) {
+        Logger.context = provider;
+    }
+
+    /**
+     * Creates a logger for a part of this one's scope, e.g. `Router:Views`.
+     */
+    public child(scope: string): Logger { return new Logger(`${this.scope}:${scope}`) }
+
+    public debug(message: string, details?: unknown) { this.log('debug', message, details) }
+
+    public info(message: string, details?: unknown) { this.log('info', message, details) }
+
+    public warn(message: string, details?: unknown) { this.log('warn', message, details) }
+
+    public error(message: string, details?: unknown) { this.log('error', message, details) }
+
+    /**
+     * Builds a record and hands it to the sink.
+     *
+     * @param details - An error, data to log with the line, or both as `{ error, ...data }`.
+     */
+    private log(level: LogLevel, message: string, details?: unknown) {
+        const { level: threshold, format, sink } = Logger.getOptions();
+        if (LEVELS[level] < (LEVELS[threshold] ?? LEVELS.info)) return;
+
+        let error: unknown;
+        let data: Record<string, unknown> | undefined;
+        if (details instanceof Error) error = details;
+        else if (details && typeof details === 'object') ({ error, ...data } = details as Record<string, unknown>);
+        else if (details !== undefined) data = { value: details };
+
+        const record: LogRecord = {
+            time: new Date().toISOString(),
+            level,
+            scope: this.scope,
+            message,
+            requestId: Logger.context?.()?.requestId,
+            data: data && Object.keys(data).length ? data : undefined,
+            error: error instanceof Error ? { name: error.name, message: error.message, stack: error.stack } : error === undefined ? undefined : { name: 'Error', message: String(error) },
+        };
+
+        try {
+            (sink ?? (format === 'json' ? jsonSink : prettySink))(record);
+        } catch (sinkError) {
+            console.error(`[Logger]: The log sink failed:`, sinkError);
+        }
+    }
+}
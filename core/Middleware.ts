@@ -0,0 +1,139 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { Environment } from "./types";
+
+/**
+ * Options for wrapping a plain Express handler with `Middleware.from`.
+ */
+export interface MiddlewareOptions {
+    name?: string;
+    priority?: number;
+    envScope?: Environment;
+}
+
+/**
+ * Abstract `Middleware` class
+ *
+ * A named, ordered piece of request handling that can be attached at three scopes:
+ * - Global: passed to the `Application` constructor, runs before every route and view.
+ * - Controller: listed in a controller's `middleware` array, runs before each of its routes.
+ * - Route: listed in a route's `middleware` array.
+ *
+ * Key Features:
+ * - `priority` orders middleware within a scope; lower values run first, ties keep declaration order.
+ * - `envScope` skips the middleware outside the given environment, the same way it skips routes.
+ * - `setup()` runs once, asynchronously, before the middleware is first attached — even when
+ *   the same instance is attached to several routes.
+ * - Errors thrown by `handle` are forwarded to `next`.
+ *
+ * Usage:
+ * Extend this class and implement `name` and `handle`, or wrap an existing Express handler
+ * with `Middleware.from(handler, options)`.
+ */
+export default abstract class Middleware {
+    /**
+     * Name shown in the resolved middleware chain logged at startup.
+     */
+    abstract readonly name: string;
+
+    /**
+     * Position within its scope; lower values run first.
+     */
+    readonly priority: number = 0;
+
+    /**
+     * Environment the middleware is limited to. Applies everywhere when unset.
+     */
+    readonly envScope?: Environment;
+
+    private setupPromise?: Promise<void>;
+
+    /**
+     * Handles a request. Call `next()` to continue the chain.
+     */
+    abstract handle(req: Request, res: Response, next: NextFunction): void | Promise<void>;
+
+    /**
+     * One-time asynchronous initialization, e.g. opening a connection or loading keys.
+     * Subclasses can override this method.
+     */
+    protected setup?(): void | Promise<void>;
+
+    /**
+     * Runs `setup()` once; later calls return the same Promise.
+     */
+    public prepare(): Promise<void> {
+        this.setupPromise ??= Promise.resolve(this.setup?.());
+        return this.setupPromise;
+    }
+
+    /**
+     * Returns an Express handler running this middleware.
+     */
+    public toHandler(): RequestHandler {
+        return async (req, res, next) => {
+            try {
+                await this.handle(req, res, next);
+            } catch (error) {
+                next(error);
+            }
+        };
+    }
+
+    /**
+     * Wraps a plain Express handler (or a Promise of one) as middleware.
+     *
+     * @param handler - The handler to wrap. A Promise is awaited during setup.
+     * @param options - Name, priority and environment scope. The name defaults to the handler's function name.
+     */
+    public static from(handler: RequestHandler | Promise<RequestHandler>, options: MiddlewareOptions = {}): Middleware {
+        return new HandlerMiddleware(handler, options);
+    }
+
+    /**
+     * Drops middleware scoped to another environment and orders the rest by priority.
+     *
+     * @param middleware - The middleware of a single scope, in declaration order.
+     * @returns The middleware that applies, in execution order.
+     */
+    public static resolve(middleware: Middleware[]): Middleware[] {
+        return middleware
+            .filter(({ envScope }) => !envScope || envScope === process.env.NODE_ENV)
+            .map((entry, index) => ({ entry, index }))
+            .sort((a, b) => a.entry.priority - b.entry.priority || a.index - b.index)
+            .map(({ entry }) => entry);
+    }
+
+    /**
+     * Formats a resolved chain for logging, e.g. `cors(0) -> auth(10)`.
+     */
+    public static describe(chain: Middleware[]): string {
+        return chain.length ? chain.map(({ name, priority }) => `${name}(${priority})`).join(" -> ") : "none";
+    }
+}
+
+/**
+ * Middleware wrapping a plain Express handler.
+ */
+class HandlerMiddleware extends Middleware {
+    readonly name: string;
+    readonly priority: number;
+    readonly envScope?: Environment;
+
+    private handler?: RequestHandler;
+
+    constructor(private readonly source: RequestHandler | Promise<RequestHandler>, options: MiddlewareOptions) {
+        super();
+        this.name = options.name ?? ((source as RequestHandler).name || "anonymous");
+        this.priority = options.priority ?? 0;
+        this.envScope = options.envScope;
+    }
+
+    protected async setup() {
+        this.handler = await this.source;
+    }
+
+    handle(req: Request, res: Response, next: NextFunction) {
+        if (!this.handler) throw new Error(`[Middleware]: ${this.name} was used before its setup completed`);
+        return this.handler(req, res, next);
+    }
+}
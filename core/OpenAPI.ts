@@ -0,0 +1,224 @@
+import fs from "fs-extra";
+import path from "path";
+import { JSONSchema, ObjectSchema, Schema } from "./Schema";
+import { escapeHtml } from "./View";
+import { Route } from "./types";
+
+/**
+ * Options of the generated OpenAPI document and the pages serving it.
+ */
+export interface OpenAPIOptions {
+    /**
+     * Path of the docs page; the document is served at `<path>/openapi.json`. `false` disables both.
+     * Defaults to `/api-docs`.
+     */
+    path?: string | false;
+    /**
+     * Defaults to the `name` in `package.json`.
+     */
+    title?: string;
+    /**
+     * Defaults to the `version` in `package.json`.
+     */
+    version?: string;
+    description?: string;
+}
+
+/**
+ * A route together with the controller that registered it.
+ */
+export interface DocumentedRoute {
+    controller: string;
+    route: Route;
+    /**
+     * The roles the route requires, see `Controller.accessOf()`. Unset for public routes.
+     */
+    roles?: string[];
+}
+
+export interface OpenAPIDocument {
+    openapi: "3.1.0";
+    info: { title: string; version: string; description?: string };
+    paths: Record<string, Record<string, unknown>>;
+    components: { schemas: Record<string, JSONSchema> };
+}
+
+/**
+ * The body of every error response, as produced by the application error handler (RFC 9457).
+ */
+const PROBLEM_SCHEMA: JSONSchema = {
+    type: "object",
+    properties: {
+        type: { type: "string" },
+        title: { type: "string" },
+        status: { type: "integer" },
+        detail: { type: "string" },
+        instance: { type: "string" },
+        issues: {
+            type: "array",
+            items: {
+                type: "object",
+                properties: { location: { type: "string" }, path: { type: "string" }, message: { type: "string" } },
+            },
+        },
+    },
+    required: ["type", "title", "status"],
+};
+
+/**
+ * Converts an Express path to an OpenAPI path: `/users/:id(\\d+)` becomes `/users/{id}`.
+ *
+ * @returns The OpenAPI path and the names of its parameters.
+ */
+export function toOpenAPIPath(expressPath: string): { path: string; params: string[] } {
+    const params: string[] = [];
+    const converted = expressPath.replace(/:(\w+)(\([^)]*\))?\??/g, (_, name: string) => {
+        params.push(name);
+        return `{${name}}`;
+    });
+    return { path: converted, params };
+}
+
+/**
+ * Derives an operation id from the method and path, e.g. `GET /api/users/:id` becomes `getApiUsersById`.
+ */
+function toOperationId(method: string, expressPath: string): string {
+    const words = expressPath.split("/").filter(Boolean).map((segment) => segment.startsWith(":")
+        ? `by-${segment.slice(1).replace(/\(.*$|\?$/g, "")}`
+        : segment);
+    return [method, ...words]
+        .map((word) => word.replace(/[^a-zA-Z0-9]+(.)?/g, (_, next: string | undefined) => next?.toUpperCase() ?? ""))
+        .map((word, index) => index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1))
+        .join("");
+}
+
+/**
+ * Drops the `undefined` members JSON Schema builders leave behind, so the document stays readable.
+ */
+function compact(value: unknown): any {
+    if (Array.isArray(value)) return value.map(compact);
+    if (!value || typeof value !== "object") return value;
+    return Object.fromEntries(Object.entries(value).filter(([, member]) => member !== undefined).map(([key, member]) => [key, compact(member)]));
+}
+
+/**
+ * Describes the declared fields of a request location as OpenAPI parameters.
+ */
+function toParameters(location: "path" | "query" | "header", locationSchema: Schema<any> | undefined, names: string[] = []) {
+    const shape = locationSchema instanceof ObjectSchema ? locationSchema.shape : {};
+    const fields = new Set([...names, ...Object.keys(shape)]);
+
+    return [...fields].map((name) => ({
+        name,
+        in: location,
+        required: location === "path" || (shape[name]?.isRequired() ?? false),
+        schema: shape[name]?.toJSONSchema() ?? { type: "string" },
+    }));
+}
+
+/**
+ * Builds the OpenAPI operation of a single route.
+ */
+function toOperation({ controller, route, roles }: DocumentedRoute, params: string[]) {
+    const { method, path: expressPath, schema = {}, summary, description, tags, operationId, responses, envScope, channel } = route;
+
+    const documented = Object.entries(responses ?? { 200: { description: "OK" } }).map(([status, { description, schema: body, contentType = "application/json" }]) => [
+        status,
+        { description: description ?? "", content: body ? { [contentType]: { schema: body.toJSONSchema() } } : undefined },
+    ]);
+    const problem = { content: { "application/problem+json": { schema: { $ref: "#/components/schemas/Problem" } } } };
+    const validated = Boolean(schema.params || schema.query || schema.body || schema.headers);
+
+    return {
+        operationId: operationId ?? toOperationId(method, expressPath),
+        summary,
+        description,
+        tags: tags ?? [controller.replace(/Controller$/, "") || controller],
+        parameters: [
+            ...toParameters("path", schema.params, params),
+            ...toParameters("query", schema.query),
+            ...toParameters("header", schema.headers),
+        ],
+        requestBody: schema.body ? { required: schema.body.isRequired(), content: { "application/json": { schema: schema.body.toJSONSchema() } } } : undefined,
+        responses: Object.fromEntries([
+            ...documented,
+            ...(validated && !responses?.[400] ? [["400", { description: "Request validation failed", ...problem }]] : []),
+            ...(roles && !responses?.[401] ? [["401", { description: "Authentication required", ...problem }]] : []),
+            ...(roles?.length && !responses?.[403] ? [["403", { description: `Requires one of the roles: ${roles.join(", ")}`, ...problem }]] : []),
+            ["default", { description: "Error", ...problem }],
+        ]),
+        "x-movico-env-scope": envScope,
+        "x-movico-channel": channel,
+    };
+}
+
+/**
+ * Builds an OpenAPI 3.1 document from registered routes.
+ *
+ * @param routes - The routes to document, with the controllers that registered them.
+ * @param options - Title, version and description of the API.
+ */
+export function buildOpenAPIDocument(routes: DocumentedRoute[], options: OpenAPIOptions = {}): OpenAPIDocument {
+    const paths: OpenAPIDocument["paths"] = {};
+    const operationIds = new Set<string>();
+
+    for (const documented of routes) {
+        const { path: openAPIPath, params } = toOpenAPIPath(documented.route.path);
+        const operation = toOperation(documented, params);
+
+        // Keep operation ids unique, as generated clients name their functions after them
+        let operationId = operation.operationId;
+        for (let suffix = 2; operationIds.has(operationId); suffix++) operationId = `${operation.operationId}${suffix}`;
+        operationIds.add(operationId);
+
+        paths[openAPIPath] ??= {};
+        paths[openAPIPath][documented.route.method] = compact({ ...operation, operationId });
+    }
+
+    return {
+        openapi: "3.1.0",
+        info: compact({ title: options.title ?? "Movico API", version: options.version ?? "1.0.0", description: options.description }),
+        paths,
+        components: { schemas: { Problem: PROBLEM_SCHEMA } },
+    };
+}
+
+/**
+ * Fills in the title and version from the project's `package.json` where the options leave them unset.
+ *
+ * @param options - The configured options.
+ * @param root - The project root.
+ */
+export async function resolveOpenAPIOptions(options: OpenAPIOptions = {}, root: string = process.cwd()): Promise<OpenAPIOptions> {
+    const file = path.resolve(root, "package.json");
+    const pkg: { name?: string; version?: string } = (await fs.pathExists(file)) ? await fs.readJson(file) : {};
+    return { ...options, title: options.title ?? pkg.name, version: options.version ?? pkg.version };
+}
+
+/**
+ * Renders a self-contained docs page for a document. It loads nothing from the network.
+ *
+ * @param document - The OpenAPI document.
+ * @param specPath - The URL the JSON document is served at, linked from the page.
+ */
+export function renderDocsPage(document: OpenAPIDocument, specPath: string): string {
+    const json = (value: unknown) => `<pre>${escapeHtml(JSON.stringify(value, null, 2))}</pre>`;
+
+    const operations = Object.entries(document.paths).flatMap(([operationPath, methods]) => Object.entries(methods).map(([method, operation]) => {
+        const { summary, description, tags, parameters, requestBody, responses, "x-movico-env-scope": envScope } = operation as Record<string, any>;
+        return `<details><summary><b class="${method}">${method.toUpperCase()}</b> <code>${escapeHtml(operationPath)}</code> ${escapeHtml(summary ?? "")}`
+            + ` <small>${escapeHtml((tags ?? []).join(", "))}${envScope ? ` &middot; ${escapeHtml(envScope)} only` : ""}</small></summary>`
+            + (description ? `<p>${escapeHtml(description)}</p>` : "")
+            + (parameters?.length ? `<h4>Parameters</h4><table>${parameters.map((parameter: Record<string, any>) => `<tr><td><code>${escapeHtml(parameter.name)}</code></td><td>${parameter.in}</td><td>${parameter.required ? "required" : "optional"}</td><td><code>${escapeHtml(JSON.stringify(parameter.schema))}</code></td></tr>`).join("")}</table>` : "")
+            + (requestBody ? `<h4>Request body</h4>${json(requestBody.content["application/json"].schema)}` : "")
+            + `<h4>Responses</h4>${Object.entries(responses ?? {}).map(([status, response]) => `<p><b>${escapeHtml(status)}</b> ${escapeHtml((response as Record<string, any>).description ?? "")}</p>`).join("")}`
+            + `</details>`;
+    }));
+
+    const { title, version, description } = document.info;
+    return `<!DOCTYPE html><html lang="en"><head><meta charset="UTF-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"><title>${escapeHtml(title)} - API docs</title>`
+        + `<style>body{font-family:system-ui,sans-serif;max-width:960px;margin:2rem auto;padding:0 1rem}details{border:1px solid #ddd;border-radius:4px;margin:.5rem 0;padding:.5rem}summary{cursor:pointer}`
+        + `b.get{color:#2b7}b.post{color:#27b}b.put,b.patch{color:#b72}b.delete{color:#b22}small{color:#777}pre{background:#f6f6f6;padding:.5rem;overflow:auto}td{padding:.2rem .5rem}</style></head>`
+        + `<body><h1>${escapeHtml(title)} <small>${escapeHtml(version)}</small></h1>${description ? `<p>${escapeHtml(description)}</p>` : ""}`
+        + `<p><a href="${escapeHtml(specPath)}">OpenAPI document (JSON)</a></p>${operations.join("") || "<p>No routes registered.</p>"}</body></html>`;
+}
@@ -0,0 +1,157 @@
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import fs from "fs-extra";
+import Container from "./Container";
+import { JsonFileAdapter, MemoryAdapter, PersistenceAdapter, PersistenceOptions, SqliteAdapter, StoredState } from "./Persistence";
+import Service from "./Service";
+
+/**
+ * Creates a persisted service class storing `{ count }` under the key `Counter`.
+ */
+function defineCounter(persistence: PersistenceOptions) {
+    return class CounterService extends Service<{ count: number }> {
+        static persistence = { key: "Counter", debounce: 10, ...persistence };
+
+        constructor() { super({ count: 0 }) }
+
+        protected onSet(): void { }
+
+        protected onRemove(): void { }
+
+        protected onReset(): void { }
+    };
+}
+
+/**
+ * Records the states saved through an adapter.
+ */
+class RecordingAdapter extends MemoryAdapter {
+    saves: StoredState[] = [];
+
+    async save(key: string, state: StoredState) {
+        this.saves.push(state);
+        await super.save(key, state);
+    }
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Checks that a state written through `adapter` is read back by a fresh adapter over the same storage.
+ */
+async function assertRoundTrip(adapter: PersistenceAdapter, reopen: () => PersistenceAdapter) {
+    const CounterService = defineCounter({ adapter });
+    const counter = new CounterService();
+    await counter.load();
+    counter.setValue("count", 3);
+    await counter.flush();
+
+    const restored = new (defineCounter({ adapter: reopen() }))();
+    await restored.load();
+    assert.equal(restored.getValue("count"), 3);
+}
+
+describe("Service persistence", () => {
+    it("writes once changes stop for the debounce interval", async () => {
+        const adapter = new RecordingAdapter();
+        const counter = new (defineCounter({ adapter }))();
+        await counter.load();
+
+        counter.setValue("count", 1);
+        counter.setValue("count", 2);
+        assert.deepEqual(adapter.saves, []);
+
+        await wait(50);
+        assert.deepEqual(adapter.saves, [{ version: 1, properties: { count: 2 } }]);
+    });
+
+    it("ignores changes made before loading", async () => {
+        const adapter = new RecordingAdapter();
+        const counter = new (defineCounter({ adapter }))();
+
+        counter.setValue("count", 1);
+        await counter.flush();
+        assert.deepEqual(adapter.saves, []);
+    });
+
+    it("migrates older stored versions and writes the result back", async () => {
+        const adapter = new RecordingAdapter();
+        await adapter.save("Counter", { version: 1, properties: { total: 5 } });
+        adapter.saves = [];
+
+        const counter = new (defineCounter({
+            adapter,
+            version: 3,
+            migrations: {
+                2: ({ total }) => ({ count: total }),
+                3: ({ count }) => ({ count: count * 10 }),
+            },
+        }))();
+        await counter.load();
+
+        assert.equal(counter.getValue("count"), 50);
+        assert.deepEqual(adapter.saves, [{ version: 3, properties: { count: 50 } }]);
+    });
+
+    it("rejects stored versions newer than the code and missing migrations", async () => {
+        const adapter = new MemoryAdapter();
+        await adapter.save("Counter", { version: 2, properties: { count: 1 } });
+
+        await assert.rejects(new (defineCounter({ adapter }))().load(), /Stored properties of Counter are version 2, newer than 1/);
+        await assert.rejects(new (defineCounter({ adapter, version: 3 }))().load(), /No migration of Counter to version 3/);
+    });
+
+    it("is rejected on services that are not singletons", () => {
+        const CounterService = defineCounter({ adapter: new MemoryAdapter() });
+
+        assert.throws(() => new Container().register(CounterService, "request"), /CounterService declares static persistence but is request/);
+        assert.throws(() => new Container().register(CounterService, "transient"), /CounterService declares static persistence but is transient/);
+        assert.doesNotThrow(() => new Container().register(CounterService));
+    });
+});
+
+describe("persistence adapters", () => {
+    let directory: string;
+
+    before(async () => { directory = await fs.mkdtemp(path.join(os.tmpdir(), "movico-persistence-")) });
+
+    after(() => fs.remove(directory));
+
+    it("MemoryAdapter keeps copies of the stored states", async () => {
+        const adapter = new MemoryAdapter();
+        const state = { version: 1, properties: { count: 1 } };
+        await adapter.save("Counter", state);
+        state.properties.count = 2;
+
+        assert.equal(await adapter.load("Missing"), undefined);
+        assert.deepEqual(await adapter.load("Counter"), { version: 1, properties: { count: 1 } });
+        await assertRoundTrip(adapter, () => adapter);
+    });
+
+    it("JsonFileAdapter replaces the file without leaving temporary files behind", async () => {
+        const folder = path.join(directory, "json");
+        const adapter = new JsonFileAdapter(folder);
+        assert.equal(await adapter.load("Counter"), undefined);
+
+        await Promise.all([1, 2, 3].map((count) => adapter.save("Counter", { version: 1, properties: { count } })));
+        assert.deepEqual(await fs.readdir(folder), ["Counter.json"]);
+        assert.equal(typeof JSON.parse(await fs.readFile(path.join(folder, "Counter.json"), "utf8")).properties.count, "number");
+
+        await assertRoundTrip(adapter, () => new JsonFileAdapter(folder));
+    });
+
+    it("SqliteAdapter writes the database file in order without leaving temporary files behind", async () => {
+        const file = path.join(directory, "sqlite", "state.db");
+        const adapter = new SqliteAdapter(file);
+        assert.equal(await adapter.load("Counter"), undefined);
+
+        await Promise.all([1, 2, 3].map((count) => adapter.save("Counter", { version: 1, properties: { count } })));
+        assert.deepEqual(await fs.readdir(path.dirname(file)), ["state.db"]);
+        assert.deepEqual(await new SqliteAdapter(file).load("Counter"), { version: 1, properties: { count: 3 } });
+
+        await assertRoundTrip(adapter, () => new SqliteAdapter(file));
+        assert.throws(() => new SqliteAdapter(file, "services; DROP TABLE x"), /Invalid SQLite table name/);
+    });
+});
@@ -0,0 +1,162 @@
+import fs from "fs-extra";
+import path from "path";
+import type { Database } from "sql.js";
+
+/**
+ * What an adapter stores for a service: its properties and the schema version they follow.
+ */
+export interface StoredState {
+    version: number;
+    properties: Record<string, unknown>;
+}
+
+/**
+ * Storage backend for `Service` properties. One adapter can be shared by several services;
+ * each service reads and writes under its own key (its class name by default).
+ */
+export interface PersistenceAdapter {
+    /**
+     * Returns the stored state, or `undefined` if nothing was stored yet.
+     */
+    load(key: string): Promise<StoredState | undefined>;
+    save(key: string, state: StoredState): Promise<void>;
+}
+
+/**
+ * Upgrades stored properties by one version.
+ */
+export type Migration = (properties: Record<string, any>) => Record<string, any> | Promise<Record<string, any>>;
+
+/**
+ * Persistence settings of a `Service` subclass, declared in its `static persistence`.
+ */
+export interface PersistenceOptions {
+    adapter: PersistenceAdapter;
+    /**
+     * Key the properties are stored under. Defaults to the service's class name.
+     */
+    key?: string;
+    /**
+     * Schema version of the properties. Defaults to `1`.
+     */
+    version?: number;
+    /**
+     * Migrations keyed by the version they upgrade to: `{ 2: (v1) => v2, 3: (v2) => v3 }`.
+     */
+    migrations?: Record<number, Migration>;
+    /**
+     * Milliseconds to wait after the last change before writing. Defaults to `100`.
+     */
+    debounce?: number;
+}
+
+let temporaryFiles = 0;
+
+/**
+ * Writes a file atomically: the content goes to a temporary file that then replaces the target,
+ * so a crash mid-write never leaves a truncated file behind. Every write gets its own temporary
+ * file, so concurrent writes to the same target never rename each other's.
+ */
+async function writeFileAtomic(file: string, content: string | Uint8Array) {
+    await fs.ensureDir(path.dirname(file));
+    const temporary = `${file}.${process.pid}-${++temporaryFiles}.tmp`;
+    await fs.writeFile(temporary, content);
+    await fs.rename(temporary, file);
+}
+
+/**
+ * Keeps states in memory. Nothing survives a restart; useful in tests.
+ */
+export class MemoryAdapter implements PersistenceAdapter {
+    private states = new Map<string, StoredState>();
+
+    async load(key: string) {
+        const state = this.states.get(key);
+        return state && structuredClone(state);
+    }
+
+    async save(key: string, state: StoredState) {
+        this.states.set(key, structuredClone(state));
+    }
+}
+
+/**
+ * Stores each service in its own JSON file, `<directory>/<key>.json`.
+ */
+export class JsonFileAdapter implements PersistenceAdapter {
+    /**
+     * @param directory - The folder the files are written to, relative to the working directory.
+     */
+    constructor(private readonly directory: string) { }
+
+    private fileOf(key: string): string {
+        return path.resolve(this.directory, `${key}.json`);
+    }
+
+    async load(key: string) {
+        const file = this.fileOf(key);
+        if (!(await fs.pathExists(file))) return undefined;
+        return JSON.parse(await fs.readFile(file, "utf8")) as StoredState;
+    }
+
+    async save(key: string, state: StoredState) {
+        await writeFileAtomic(this.fileOf(key), JSON.stringify(state, null, 2));
+    }
+}
+
+/**
+ * Stores every service as a row of a single SQLite database file.
+ *
+ * Runs SQLite compiled to WebAssembly (`sql.js`), so no native build is required. The database is
+ * held in memory and the whole file is replaced atomically on every write, which suits the small,
+ * infrequently written state of services.
+ */
+export class SqliteAdapter implements PersistenceAdapter {
+    private database?: Promise<Database>;
+    private writes: Promise<void> = Promise.resolve();
+
+    /**
+     * @param file - The database file, relative to the working directory.
+     * @param table - The table the states are stored in.
+     */
+    constructor(private readonly file: string, private readonly table: string = "movico_services") {
+        if (!/^\w+$/.test(table)) throw new Error(`[Persistence]: Invalid SQLite table name: ${table}`);
+    }
+
+    /**
+     * Opens the database once, creating the table if needed.
+     */
+    private open(): Promise<Database> {
+        this.database ??= (async () => {
+            const { default: initSqlJs } = await import("sql.js");
+            const SQL = await initSqlJs();
+            const file = path.resolve(this.file);
+            const database = new SQL.Database((await fs.pathExists(file)) ? await fs.readFile(file) : undefined);
+            database.run(`CREATE TABLE IF NOT EXISTS ${this.table} (key TEXT PRIMARY KEY, version INTEGER NOT NULL, properties TEXT NOT NULL)`);
+            return database;
+        })();
+        return this.database;
+    }
+
+    async load(key: string) {
+        const database = await this.open();
+        const [result] = database.exec(`SELECT version, properties FROM ${this.table} WHERE key = ?`, [key]);
+        if (!result) return undefined;
+
+        const [version, properties] = result.values[0];
+        return { version: Number(version), properties: JSON.parse(String(properties)) };
+    }
+
+    async save(key: string, state: StoredState) {
+        const database = await this.open();
+        database.run(
+            `INSERT INTO ${this.table} (key, version, properties) VALUES (?, ?, ?) ON CONFLICT(key) DO UPDATE SET version = excluded.version, properties = excluded.properties`,
+            [key, state.version, JSON.stringify(state.properties)]
+        );
+
+        // Writes are chained so an older snapshot never replaces a newer one
+        const write = this.writes.then(() => writeFileAtomic(path.resolve(this.file), database.export()));
+        this.writes = write.catch(() => { });
+        await write;
+    }
+}
@@ -0,0 +1,81 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { performance } from "perf_hooks";
+import Logger from "./Logger";
+import { AuthUser } from "./types";
+
+/**
+ * What is known about the request being handled, wherever code runs on its behalf.
+ */
+export interface RequestContext {
+    requestId: string;
+    /**
+     * The authenticated user, set by the auth middleware when a strategy recognizes the request.
+     */
+    user?: AuthUser;
+    /**
+     * The Content Security Policy nonce of the response, set by the security headers middleware.
+     */
+    nonce?: string;
+    /**
+     * The CSRF token of the client, once read from its cookie or issued.
+     */
+    csrfToken?: string;
+}
+
+/**
+ * Header carrying the request ID. A valid incoming one is kept, so IDs can be traced across services.
+ */
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+const storage = new AsyncLocalStorage<RequestContext>();
+const contexts = new WeakMap<Request, RequestContext>();
+const accessLogger = new Logger('Access');
+
+Logger.useContext(() => storage.getStore());
+
+/**
+ * Returns the context of a request, or of the request being handled when none is given.
+ */
+export function getRequestContext(req?: Request): RequestContext | undefined {
+    return req ? contexts.get(req) : storage.getStore();
+}
+
+/**
+ * Returns the ID of a request, or of the request being handled when none is given.
+ */
+export function getRequestId(req?: Request): string | undefined {
+    return getRequestContext(req)?.requestId;
+}
+
+/**
+ * Returns middleware giving every request an ID, answered in the `X-Request-Id` header and attached to
+ * every log line written while handling it, and writing the access log once the response finishes.
+ * Mount it ahead of everything else.
+ */
+export function requestContext(): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const incoming = req.get(REQUEST_ID_HEADER);
+        const context: RequestContext = { requestId: incoming && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID() };
+        contexts.set(req, context);
+        res.setHeader(REQUEST_ID_HEADER, context.requestId);
+
+        const start = performance.now();
+        res.on('finish', () => {
+            if (!Logger.getOptions().accessLog) return;
+
+            const duration = Math.round((performance.now() - start) * 10) / 10;
+            storage.run(context, () => accessLogger.info(`${req.method} ${req.originalUrl} ${res.statusCode} ${duration}ms`, {
+                method: req.method,
+                url: req.originalUrl,
+                status: res.statusCode,
+                duration,
+            }));
+        });
+
+        storage.run(context, next);
+    };
+}
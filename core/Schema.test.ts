@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Request } from "express";
+import Controller, { defineRoute } from "./Controller";
+import { schema, validateRequest } from "./Schema";
+import { createTestApp } from "./testing";
+
+/**
+ * Builds the parts of a request `validateRequest()` reads.
+ */
+function toRequest({ params = {}, query = {}, body, headers = {} }: { params?: object; query?: object; body?: unknown; headers?: object }): Request {
+    return { params, query, body, headers } as unknown as Request;
+}
+
+describe("validateRequest", () => {
+    it("coerces query strings and route params", () => {
+        const { input, issues } = validateRequest({
+            params: schema.object({ id: schema.number({ integer: true }) }),
+            query: schema.object({ active: schema.boolean(), tags: schema.array(schema.string()) }),
+        }, toRequest({ params: { id: "42" }, query: { active: "true", tags: "a" } }));
+
+        assert.deepEqual(issues, []);
+        assert.deepEqual(input.params, { id: 42 });
+        assert.deepEqual(input.query, { active: true, tags: ["a"] });
+    });
+
+    it("rejects numbers that are not finite", () => {
+        for (const value of ["Infinity", "-Infinity", "1e400", "NaN", "abc"]) {
+            const { issues } = validateRequest({ query: schema.object({ limit: schema.number() }) }, toRequest({ query: { limit: value } }));
+            assert.deepEqual(issues, [{ location: "query", path: "limit", message: "Expected number" }], value);
+        }
+    });
+
+    it("fills defaults, leaves optional values out and strips unknown keys", () => {
+        const { input, issues } = validateRequest({
+            query: schema.object({ page: schema.number().default(1), search: schema.string().optional() }),
+        }, toRequest({ query: { extra: "x" } }));
+
+        assert.deepEqual(issues, []);
+        assert.deepEqual(input.query, { page: 1 });
+    });
+
+    it("reports every issue with its nested path", () => {
+        const { issues } = validateRequest({
+            body: schema.object({
+                name: schema.string({ min: 2 }),
+                address: schema.object({ zip: schema.string({ pattern: /^\d{5}$/ }) }),
+                items: schema.array(schema.object({ quantity: schema.number({ min: 1 }) })),
+            }),
+            headers: schema.object({ "X-Api-Version": schema.number() }),
+        }, toRequest({ body: { name: "A", address: { zip: "abc" }, items: [{ quantity: 1 }, { quantity: 0 }] } }));
+
+        assert.deepEqual(issues.map(({ location, path }) => `${location}:${path}`), [
+            "body:name",
+            "body:address.zip",
+            "body:items.1.quantity",
+            "headers:X-Api-Version",
+        ]);
+        assert.equal(issues[3].message, "Required");
+    });
+});
+
+class OrdersController extends Controller {
+    routes = [defineRoute({
+        method: "post",
+        path: "/api/orders",
+        csrf: false,
+        schema: { body: schema.object({ quantity: schema.number({ integer: true, min: 1 }) }) },
+        endpointFn: (req, res, next, { body }) => { res.status(201).json(body) },
+    })];
+}
+
+describe("route schemas", () => {
+    it("answer invalid requests with a 400 listing the issues", async () => {
+        const app = await createTestApp({ discover: false, controllers: [OrdersController] });
+        try {
+            const invalid = await app.inject({ method: "post", url: "/api/orders", headers: { accept: "application/json" }, body: { quantity: "1.5" } });
+            assert.equal(invalid.status, 400);
+            assert.match(String(invalid.headers["content-type"]), /^application\/problem\+json/);
+            assert.deepEqual(invalid.json().issues, [{ location: "body", path: "quantity", message: "Expected integer" }]);
+
+            const valid = await app.inject({ method: "post", url: "/api/orders", body: { quantity: "2" } });
+            assert.equal(valid.status, 201);
+            assert.deepEqual(valid.json(), { quantity: 2 });
+        } finally {
+            await app.close();
+        }
+    });
+});
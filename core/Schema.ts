@@ -0,0 +1,291 @@
+import { Request } from "express";
+import { RequestLocation, RouteInput, RouteSchema, ValidationIssue } from "./types";
+
+/**
+ * Abstract `Schema` class
+ *
+ * Base class of the declarative schemas used to validate the `params`, `query`, `body` and `headers`
+ * of a `Route`. A schema validates an unknown value, coerces it where it is safe to do so (query strings
+ * and route params always arrive as strings) and records every failure as a `ValidationIssue` instead of
+ * stopping at the first one.
+ *
+ * @template Output - The type of the value produced by a successful validation.
+ */
+export abstract class Schema<Output = unknown> {
+    /**
+     * Phantom property carrying the output type for `Infer`. Never set at runtime.
+     */
+    declare readonly _output: Output;
+
+    /**
+     * Validates and coerces a present (non-`undefined`) value.
+     *
+     * @param value - The value to check.
+     * @param context - Where the value lives, used to build issues.
+     * @returns The coerced value, or `undefined` if an issue was recorded.
+     */
+    protected abstract check(value: unknown, context: SchemaContext): Output | undefined;
+
+    /**
+     * Validates a value, reporting `Required` when it is missing.
+     */
+    public validate(value: unknown, context: SchemaContext): Output | undefined {
+        if (value === undefined || value === null || value === "") {
+            context.issues.push({ location: context.location, path: context.path.join("."), message: "Required" });
+            return undefined;
+        }
+        return this.check(value, context);
+    }
+
+    /**
+     * Describes the schema as JSON Schema, e.g. for the OpenAPI document.
+     */
+    public abstract toJSONSchema(): JSONSchema;
+
+    /**
+     * Whether a value must be present. `optional()` and `default()` schemas accept a missing value.
+     */
+    public isRequired(): boolean { return true }
+
+    /**
+     * Allows the value to be missing.
+     */
+    public optional(): OptionalSchema<Output> { return new OptionalSchema(this) }
+
+    /**
+     * Uses `value` when the input is missing.
+     */
+    public default(value: Output): DefaultSchema<Output> { return new DefaultSchema(this, value) }
+}
+
+/**
+ * The location and path of the value being validated, plus the issues collected so far.
+ */
+export interface SchemaContext {
+    location: ValidationIssue["location"];
+    path: string[];
+    issues: ValidationIssue[];
+}
+
+/**
+ * A JSON Schema (draft 2020-12, as used by OpenAPI 3.1) object.
+ */
+export type JSONSchema = Record<string, unknown>;
+
+/**
+ * Extracts the output type of a schema.
+ */
+export type Infer<TargetSchema> = TargetSchema extends Schema<infer Output> ? Output : never;
+
+/**
+ * Records an issue at the current path and returns `undefined` for convenience.
+ */
+function fail(context: SchemaContext, message: string): undefined {
+    context.issues.push({ location: context.location, path: context.path.join("."), message });
+    return undefined;
+}
+
+export class OptionalSchema<Output> extends Schema<Output | undefined> {
+    constructor(private readonly inner: Schema<Output>) { super() }
+
+    public validate(value: unknown, context: SchemaContext): Output | undefined {
+        return value === undefined || value === null || value === "" ? undefined : this.inner.validate(value, context);
+    }
+
+    protected check(value: unknown, context: SchemaContext): Output | undefined { return this.inner.validate(value, context) }
+
+    public toJSONSchema(): JSONSchema { return this.inner.toJSONSchema() }
+
+    public isRequired(): boolean { return false }
+}
+
+export class DefaultSchema<Output> extends Schema<Output> {
+    constructor(private readonly inner: Schema<Output>, private readonly fallback: Output) { super() }
+
+    public validate(value: unknown, context: SchemaContext): Output | undefined {
+        return value === undefined || value === null || value === "" ? this.fallback : this.inner.validate(value, context);
+    }
+
+    protected check(value: unknown, context: SchemaContext): Output | undefined { return this.inner.validate(value, context) }
+
+    public toJSONSchema(): JSONSchema { return { ...this.inner.toJSONSchema(), default: this.fallback } }
+
+    public isRequired(): boolean { return false }
+}
+
+export interface StringOptions<Values extends string = string> {
+    min?: number;
+    max?: number;
+    pattern?: RegExp;
+    enum?: readonly Values[];
+}
+
+export class StringSchema<Output extends string = string> extends Schema<Output> {
+    constructor(private readonly options: StringOptions<Output> = {}) { super() }
+
+    protected check(value: unknown, context: SchemaContext): Output | undefined {
+        if (typeof value === "number" || typeof value === "boolean") value = String(value);
+        if (typeof value !== "string") return fail(context, "Expected string");
+
+        const { min, max, pattern, enum: values } = this.options;
+        if (min !== undefined && value.length < min) return fail(context, `Expected at least ${min} character(s)`);
+        if (max !== undefined && value.length > max) return fail(context, `Expected at most ${max} character(s)`);
+        if (pattern && !pattern.test(value)) return fail(context, `Expected to match ${pattern}`);
+        if (values && !values.includes(value as Output)) return fail(context, `Expected one of: ${values.join(", ")}`);
+
+        return value as Output;
+    }
+
+    public toJSONSchema(): JSONSchema {
+        const { min, max, pattern, enum: values } = this.options;
+        return { type: "string", minLength: min, maxLength: max, pattern: pattern?.source, enum: values };
+    }
+}
+
+export interface NumberOptions {
+    min?: number;
+    max?: number;
+    integer?: boolean;
+}
+
+export class NumberSchema extends Schema<number> {
+    constructor(private readonly options: NumberOptions = {}) { super() }
+
+    protected check(value: unknown, context: SchemaContext): number | undefined {
+        const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+        if (typeof number !== "number" || !Number.isFinite(number)) return fail(context, "Expected number");
+
+        const { min, max, integer } = this.options;
+        if (integer && !Number.isInteger(number)) return fail(context, "Expected integer");
+        if (min !== undefined && number < min) return fail(context, `Expected a number >= ${min}`);
+        if (max !== undefined && number > max) return fail(context, `Expected a number <= ${max}`);
+
+        return number;
+    }
+
+    public toJSONSchema(): JSONSchema {
+        const { min, max, integer } = this.options;
+        return { type: integer ? "integer" : "number", minimum: min, maximum: max };
+    }
+}
+
+export class BooleanSchema extends Schema<boolean> {
+    protected check(value: unknown, context: SchemaContext): boolean | undefined {
+        if (typeof value === "boolean") return value;
+        if (value === "true" || value === "1" || value === 1) return true;
+        if (value === "false" || value === "0" || value === 0) return false;
+        return fail(context, "Expected boolean");
+    }
+
+    public toJSONSchema(): JSONSchema { return { type: "boolean" } }
+}
+
+export interface ArrayOptions {
+    min?: number;
+    max?: number;
+}
+
+export class ArraySchema<Item extends Schema<any>> extends Schema<Infer<Item>[]> {
+    constructor(private readonly item: Item, private readonly options: ArrayOptions = {}) { super() }
+
+    protected check(value: unknown, context: SchemaContext): Infer<Item>[] | undefined {
+        // A query parameter given once (`?tag=a`) arrives as a plain value
+        const items = Array.isArray(value) ? value : [value];
+
+        const { min, max } = this.options;
+        if (min !== undefined && items.length < min) return fail(context, `Expected at least ${min} item(s)`);
+        if (max !== undefined && items.length > max) return fail(context, `Expected at most ${max} item(s)`);
+
+        const issueCount = context.issues.length;
+        const output = items.map((item, index) => this.item.validate(item, { ...context, path: [...context.path, String(index)] }));
+        return context.issues.length === issueCount ? output : undefined;
+    }
+
+    public toJSONSchema(): JSONSchema {
+        const { min, max } = this.options;
+        return { type: "array", items: this.item.toJSONSchema(), minItems: min, maxItems: max };
+    }
+}
+
+export type ObjectShape = Record<string, Schema<any>>;
+
+export class ObjectSchema<Shape extends ObjectShape> extends Schema<{ [Key in keyof Shape]: Infer<Shape[Key]> }> {
+    constructor(public readonly shape: Shape) { super() }
+
+    protected check(value: unknown, context: SchemaContext): { [Key in keyof Shape]: Infer<Shape[Key]> } | undefined {
+        if (typeof value !== "object" || Array.isArray(value)) return fail(context, "Expected object");
+
+        const issueCount = context.issues.length;
+        const output: Record<string, unknown> = {};
+
+        // Unknown keys are stripped so handlers only ever see declared fields
+        for (const [key, schema] of Object.entries(this.shape)) {
+            const field = schema.validate((value as Record<string, unknown>)[key], { ...context, path: [...context.path, key] });
+            if (field !== undefined) output[key] = field;
+        }
+
+        return context.issues.length === issueCount ? output as { [Key in keyof Shape]: Infer<Shape[Key]> } : undefined;
+    }
+
+    public toJSONSchema(): JSONSchema {
+        const required = Object.keys(this.shape).filter((key) => this.shape[key].isRequired());
+        return {
+            type: "object",
+            properties: Object.fromEntries(Object.entries(this.shape).map(([key, schema]) => [key, schema.toJSONSchema()])),
+            required: required.length ? required : undefined,
+        };
+    }
+}
+
+/**
+ * Schema builders for `Route.schema`.
+ *
+ * Example:
+ * ```typescript
+ * defineRoute({
+ *     method: 'get',
+ *     path: '/api/users/:id',
+ *     schema: {
+ *         params: schema.object({ id: schema.number({ integer: true }) }),
+ *         query: schema.object({ fields: schema.array(schema.string()).optional() }),
+ *     },
+ *     endpointFn: (req, res, next, { params }) => { res.json({ id: params.id }) },
+ * });
+ * ```
+ */
+export const schema = {
+    string: <Values extends string = string>(options?: StringOptions<Values>) => new StringSchema<Values>(options),
+    number: (options?: NumberOptions) => new NumberSchema(options),
+    boolean: () => new BooleanSchema(),
+    array: <Item extends Schema<any>>(item: Item, options?: ArrayOptions) => new ArraySchema(item, options),
+    object: <Shape extends ObjectShape>(shape: Shape) => new ObjectSchema(shape),
+};
+
+/**
+ * Validates every location declared in a route schema against a request.
+ *
+ * Header names are matched in lowercase, the way Node exposes them. Locations without a schema are
+ * passed through untouched.
+ *
+ * @param routeSchema - The route's schema.
+ * @param req - The incoming request.
+ * @returns The coerced input and every issue found across all locations.
+ */
+export function validateRequest<TSchema extends RouteSchema>(routeSchema: TSchema, req: Request): { input: RouteInput<TSchema>; issues: ValidationIssue[] } {
+    const issues: ValidationIssue[] = [];
+    const sources: Record<RequestLocation, unknown> = { params: req.params, query: req.query, body: req.body, headers: req.headers };
+    const input: Record<string, unknown> = { ...sources };
+
+    for (const location of Object.keys(sources) as RequestLocation[]) {
+        const locationSchema = routeSchema[location];
+        if (!locationSchema) continue;
+
+        const source = location === "headers" && locationSchema instanceof ObjectSchema
+            ? Object.fromEntries(Object.keys(locationSchema.shape).map((key) => [key, req.headers[key.toLowerCase()]]))
+            : sources[location];
+
+        input[location] = locationSchema.validate(source, { location, path: [], issues });
+    }
+
+    return { input: input as unknown as RouteInput<TSchema>, issues };
+}
@@ -0,0 +1,130 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import Controller, { defineRoute } from "./Controller";
+import { defineView } from "./View";
+import { createTestApp, TestApp, TestResponse } from "./testing";
+
+class NotesController extends Controller {
+    routes = [
+        defineRoute({
+            method: "post",
+            path: "/api/notes",
+            endpointFn: (req, res) => { res.status(201).json({ created: true }) },
+        }),
+        defineRoute({
+            method: "get",
+            path: "/api/search",
+            rateLimit: { limit: 2, window: 60_000 },
+            endpointFn: (req, res) => { res.json({ results: [] }) },
+        }),
+        defineRoute({
+            method: "get",
+            path: "/api/export",
+            rateLimit: { limit: 1, window: 60_000, key: (req) => req.get("x-tenant") ?? "none" },
+            endpointFn: (req, res) => { res.json({ rows: [] }) },
+        }),
+    ];
+}
+
+const notesView = defineView({
+    component: () => <h1>Notes</h1>,
+});
+
+/**
+ * Returns the value of a cookie set by a response.
+ */
+function cookieOf(response: TestResponse, name: string): string | undefined {
+    const cookies = [response.headers["set-cookie"] ?? []].flat().map(String);
+    return cookies.map((cookie) => cookie.match(new RegExp(`^${name}=([^;]*)`))?.[1]).find(Boolean);
+}
+
+function nonceOf(response: TestResponse): string | undefined {
+    return String(response.headers["content-security-policy"]).match(/'nonce-([^']+)'/)?.[1];
+}
+
+describe("SecurityService", () => {
+    let app: TestApp;
+    let token: string;
+    let cookie: string;
+
+    before(async () => {
+        app = await createTestApp({ discover: false, controllers: [NotesController], viewMap: { "/notes": notesView } });
+        const page = await app.inject("/notes");
+        token = cookieOf(page, "movico_csrf")!;
+        cookie = `movico_csrf=${token}`;
+    });
+
+    after(() => app.close());
+
+    it("issues the CSRF token to rendered pages in a cookie and a meta tag", async () => {
+        const page = await app.inject("/notes");
+
+        assert.match(token, /^[\w-]{43}$/);
+        assert.ok(page.text.includes(`<meta name="csrf-token" content="${cookieOf(page, "movico_csrf")}">`));
+        assert.equal(cookieOf(await app.inject({ url: "/notes", headers: { cookie } }), "movico_csrf"), undefined);
+    });
+
+    it("accepts unsafe requests carrying the cookie's token in the header or the _csrf field", async () => {
+        const header = await app.inject({ method: "post", url: "/api/notes", headers: { cookie, "x-csrf-token": token }, body: {} });
+        const field = await app.inject({
+            method: "post",
+            url: "/api/notes",
+            headers: { cookie, "content-type": "application/x-www-form-urlencoded" },
+            body: `_csrf=${encodeURIComponent(token)}`,
+        });
+
+        assert.equal(header.status, 201);
+        assert.equal(field.status, 201);
+    });
+
+    it("rejects unsafe requests with a missing or mismatched token", async () => {
+        const attempts: Record<string, string>[] = [
+            { cookie },
+            { cookie, "x-csrf-token": `${token.slice(1)}x` },
+            { "x-csrf-token": token },
+            { cookie: "movico_csrf=forged", "x-csrf-token": "forged-but-different" },
+        ];
+
+        for (const headers of attempts) {
+            const response = await app.inject({ method: "post", url: "/api/notes", headers: { accept: "application/json", ...headers }, body: {} });
+            assert.equal(response.status, 403, JSON.stringify(headers));
+            assert.equal(response.json().detail, "Invalid or missing CSRF token");
+        }
+    });
+
+    it("does not check requests authenticated with a bearer token", async () => {
+        const response = await app.inject({ method: "post", url: "/api/notes", headers: { authorization: "Bearer token" }, body: {} });
+        assert.equal(response.status, 201);
+    });
+
+    it("sends a fresh CSP nonce with every response and adds it to the page's scripts", async () => {
+        const [first, second] = [await app.inject("/notes"), await app.inject("/notes")];
+
+        assert.ok(nonceOf(first));
+        assert.notEqual(nonceOf(first), nonceOf(second));
+        const scripts = second.text.match(/<script\b[^>]*>/g) ?? [];
+        assert.ok(scripts.length > 0);
+        for (const script of scripts) assert.ok(script.includes(`nonce="${nonceOf(second)}"`), script);
+    });
+
+    it("sends the RateLimit headers and answers with a 429 once the limit is reached", async () => {
+        const responses: TestResponse[] = [];
+        for (let attempt = 0; attempt < 3; attempt++) responses.push(await app.inject({ url: "/api/search", headers: { accept: "application/json" } }));
+
+        assert.deepEqual(responses.map(({ status }) => status), [200, 200, 429]);
+        assert.deepEqual(responses.map(({ headers }) => headers["ratelimit-remaining"]), ["1", "0", "0"]);
+        assert.equal(responses[0].headers["ratelimit-limit"], "2");
+        assert.equal(responses[0].headers["ratelimit-policy"], "2;w=60");
+        assert.ok(Number(responses[2].headers["ratelimit-reset"]) <= 60);
+        assert.equal(responses[2].headers["retry-after"], responses[2].headers["ratelimit-reset"]);
+        assert.equal(responses[2].json().status, 429);
+    });
+
+    it("counts requests per client key", async () => {
+        const request = (tenant: string) => app.inject({ url: "/api/export", headers: { "x-tenant": tenant } });
+
+        assert.equal((await request("acme")).status, 200);
+        assert.equal((await request("acme")).status, 429);
+        assert.equal((await request("globex")).status, 200);
+    });
+});
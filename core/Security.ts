@@ -0,0 +1,363 @@
+import { randomBytes, timingSafeEqual } from "crypto";
+import express, { NextFunction, Request, RequestHandler, Response } from "express";
+import Service from "./Service";
+import { ForbiddenError, TooManyRequestsError } from "./HttpError";
+import { getRequestContext } from "./RequestContext";
+import { readCookie } from "./Auth";
+import { CSRF_FIELD, CSRF_HEADER, CSRF_META_NAME, escapeHtml } from "./View";
+import { RateLimitOptions } from "./types";
+
+/**
+ * Methods that change state, and so must carry the CSRF token.
+ */
+const UNSAFE_METHODS = ["post", "put", "patch", "delete"];
+
+/**
+ * How often the in-memory store drops expired windows, in milliseconds.
+ */
+const SWEEP_INTERVAL = 60 * 1000;
+
+/**
+ * Directives of a Content Security Policy, e.g. `{ 'img-src': ["'self'", 'https://cdn.example.com'] }`.
+ * `false` drops a default directive.
+ */
+export type CSPDirectives = Record<string, string[] | false>;
+
+export interface HSTSOptions {
+    /**
+     * Seconds browsers only use HTTPS for the site. Defaults to 180 days.
+     */
+    maxAge?: number;
+    /**
+     * Defaults to `true`.
+     */
+    includeSubDomains?: boolean;
+    /**
+     * Defaults to `false`.
+     */
+    preload?: boolean;
+}
+
+export interface CSRFOptions {
+    /**
+     * Name of the cookie holding the token. Defaults to `movico_csrf`.
+     */
+    cookie?: string;
+    /**
+     * Whether the cookie is only sent over HTTPS. Defaults to `true` in production.
+     */
+    secure?: boolean;
+}
+
+/**
+ * The `security` setting of `movico.config.ts`.
+ */
+export interface SecurityOptions {
+    /**
+     * Directives replacing the defaults one by one, or `false` to send no policy. Every response gets a
+     * fresh nonce, added to `script-src` and to the script tags of rendered pages.
+     */
+    contentSecurityPolicy?: CSPDirectives | false;
+    /**
+     * `Strict-Transport-Security`, sent in production only, or `false` to send none.
+     */
+    hsts?: HSTSOptions | false;
+    /**
+     * `X-Frame-Options`, also setting the default `frame-ancestors` directive. Defaults to `DENY`.
+     */
+    frameOptions?: "DENY" | "SAMEORIGIN" | false;
+    /**
+     * Defaults to `strict-origin-when-cross-origin`.
+     */
+    referrerPolicy?: string | false;
+    /**
+     * CSRF protection of controller routes, or `false` to turn it off, e.g. in the `test` environment.
+     * Requests authenticated with a bearer token are not checked, as browsers never send one on their own.
+     */
+    csrf?: CSRFOptions | false;
+    /**
+     * Origins, e.g. `https://admin.example.com`, allowed to open WebSocket channels besides the application's
+     * own. Browsers send cookies with cross-origin WebSocket handshakes, which are not checked for the CSRF
+     * token, so handshakes from other origins are answered with a 403.
+     */
+    allowedOrigins?: string[];
+    /**
+     * Where rate limit counters are kept. Defaults to a `MemoryRateLimitStore`, which is per process.
+     */
+    rateLimitStore?: RateLimitStore;
+}
+
+/**
+ * The requests a client made in the current window of a rate limit.
+ */
+export interface RateLimitState {
+    count: number;
+    /**
+     * When the window ends, in milliseconds since the epoch.
+     */
+    resetAt: number;
+}
+
+/**
+ * Keeps rate limit counters, e.g. in memory or in a store shared by several instances.
+ */
+export interface RateLimitStore {
+    /**
+     * Counts a request of a client and returns the state of its current window, starting a new window
+     * of `window` milliseconds when there is none.
+     */
+    hit(key: string, window: number): RateLimitState | Promise<RateLimitState>;
+}
+
+/**
+ * Keeps rate limit counters in the memory of the process. Expired windows are dropped as requests come in.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+    private windows = new Map<string, RateLimitState>();
+    private nextSweep = 0;
+
+    public hit(key: string, window: number): RateLimitState {
+        const now = Date.now();
+        if (now >= this.nextSweep) {
+            for (const [expired, state] of this.windows) if (state.resetAt <= now) this.windows.delete(expired);
+            this.nextSweep = now + SWEEP_INTERVAL;
+        }
+
+        let state = this.windows.get(key);
+        if (!state || state.resetAt <= now) {
+            state = { count: 0, resetAt: now + window };
+            this.windows.set(key, state);
+        }
+        state.count++;
+        return { ...state };
+    }
+}
+
+/**
+ * Returns the Content Security Policy nonce of a request, or of the request being handled when none is given.
+ */
+export function getNonce(req?: Request): string | undefined {
+    return getRequestContext(req)?.nonce;
+}
+
+/**
+ * Adds a nonce to every script tag of a page that has none, so inline scripts, e.g. those `VDS` adds in
+ * development, pass the Content Security Policy.
+ */
+export function applyNonce(page: string, nonce?: string): string {
+    return nonce ? page.replace(/<script\b(?![^>]*\snonce=)/gi, () => `<script nonce="${escapeHtml(nonce)}"`) : page;
+}
+
+/**
+ * Checks whether a method changes state, and so must carry the CSRF token.
+ */
+export function isUnsafeMethod(method: string): boolean {
+    return UNSAFE_METHODS.includes(method.toLowerCase());
+}
+
+function tokensMatch(expected: string, given: string): boolean {
+    const expectedBuffer = Buffer.from(expected);
+    const givenBuffer = Buffer.from(given);
+    return expectedBuffer.length === givenBuffer.length && timingSafeEqual(expectedBuffer, givenBuffer);
+}
+
+/**
+ * Sends the security headers of the `security` setting of `movico.config.ts`, issues CSRF tokens to
+ * rendered views and builds the CSRF and rate limit checks of controller routes.
+ *
+ * - Content Security Policy with a per-response nonce for scripts. In development, `VDS` scripts get the
+ *   nonce like any other, and its HMR websocket is allowed.
+ * - `Strict-Transport-Security` in production, `X-Frame-Options`, `Referrer-Policy` and `X-Content-Type-Options`.
+ * - CSRF tokens in a cookie, compared with the `X-CSRF-Token` header or the `_csrf` form field of
+ *   unsafe requests. Views get the token through `useCsrfToken()`, and the generated API client sends it.
+ * - `Origin` checks of WebSocket handshakes, which browsers send cookies with from any site.
+ * - Rate limits with the `RateLimit-Limit`, `RateLimit-Remaining`, `RateLimit-Reset` and `RateLimit-Policy`
+ *   headers, and a 429 with `Retry-After` once the limit is reached.
+ */
+export default class SecurityService extends Service {
+    private readonly store: RateLimitStore;
+
+    constructor(private readonly options: SecurityOptions = {}) {
+        super();
+        this.store = options.rateLimitStore ?? new MemoryRateLimitStore();
+    }
+
+    /**
+     * Whether unsafe requests to controller routes are checked for the CSRF token.
+     */
+    public get csrfEnabled(): boolean { return this.options.csrf !== false }
+
+    private get csrf(): Required<CSRFOptions> {
+        return { cookie: "movico_csrf", secure: process.env.NODE_ENV === "production", ...(this.options.csrf || {}) };
+    }
+
+    /**
+     * Builds the Content Security Policy of a response.
+     */
+    private contentSecurityPolicy(nonce: string): string {
+        const development = process.env.NODE_ENV === "development";
+        const { frameOptions = "DENY", contentSecurityPolicy } = this.options;
+
+        const directives: CSPDirectives = {
+            "default-src": ["'self'"],
+            "base-uri": ["'self'"],
+            "object-src": ["'none'"],
+            "script-src": ["'self'"],
+            "style-src": ["'self'", "'unsafe-inline'"],
+            "img-src": ["'self'", "data:"],
+            "font-src": ["'self'", "data:"],
+            "connect-src": development ? ["'self'", "ws:", "wss:"] : ["'self'"],
+            "form-action": ["'self'"],
+            ...(frameOptions ? { "frame-ancestors": [frameOptions === "SAMEORIGIN" ? "'self'" : "'none'"] } : {}),
+            ...contentSecurityPolicy,
+        };
+        if (directives["script-src"]) directives["script-src"] = [...directives["script-src"], `'nonce-${nonce}'`];
+
+        return Object.entries(directives).flatMap(([name, sources]) => sources ? [`${name} ${sources.join(" ")}`] : []).join("; ");
+    }
+
+    /**
+     * Returns middleware creating the nonce of every response and sending the security headers.
+     */
+    public headers(): RequestHandler {
+        const { contentSecurityPolicy, hsts = {}, frameOptions = "DENY", referrerPolicy = "strict-origin-when-cross-origin" } = this.options;
+        const production = process.env.NODE_ENV === "production";
+        const policy = (nonce: string) => this.contentSecurityPolicy(nonce);
+
+        return function securityHeaders(req: Request, res: Response, next: NextFunction) {
+            res.set("X-Content-Type-Options", "nosniff");
+            if (frameOptions) res.set("X-Frame-Options", frameOptions);
+            if (referrerPolicy) res.set("Referrer-Policy", referrerPolicy);
+            if (hsts && production) {
+                const { maxAge = 15552000, includeSubDomains = true, preload = false } = hsts;
+                res.set("Strict-Transport-Security", `max-age=${maxAge}${includeSubDomains ? "; includeSubDomains" : ""}${preload ? "; preload" : ""}`);
+            }
+
+            if (contentSecurityPolicy !== false) {
+                const nonce = randomBytes(16).toString("base64");
+                const context = getRequestContext(req);
+                if (context) context.nonce = nonce;
+                res.set("Content-Security-Policy", policy(nonce));
+            }
+            next();
+        };
+    }
+
+    /**
+     * Returns the CSRF token of a client, issuing one in a cookie when it has none.
+     *
+     * @returns The token, or `undefined` when CSRF protection is off.
+     */
+    public csrfToken(req: Request, res: Response): string | undefined {
+        if (!this.csrfEnabled) return undefined;
+
+        const context = getRequestContext(req);
+        if (context?.csrfToken) return context.csrfToken;
+
+        const { cookie, secure } = this.csrf;
+        let token = readCookie(req, cookie);
+        if (!token) {
+            token = randomBytes(32).toString("base64url");
+            res.cookie(cookie, token, { httpOnly: true, secure, sameSite: "lax", path: "/" });
+        }
+        if (context) context.csrfToken = token;
+        return token;
+    }
+
+    /**
+     * Adds the CSRF token of a page in a `<meta>` tag, for the client, and the nonce to its scripts.
+     */
+    public securePage(page: string, req: Request, res: Response): string {
+        const token = this.csrfToken(req, res);
+        const meta = token ? `<meta name="${CSRF_META_NAME}" content="${escapeHtml(token)}">` : "";
+        return applyNonce(page, getNonce(req)).replace("</head>", () => `${meta}</head>`);
+    }
+
+    /**
+     * Whether a route needs the CSRF check: it changes state and does not opt out.
+     */
+    public checksCSRF(method: string, csrf?: boolean): boolean {
+        return this.csrfEnabled && csrf !== false && isUnsafeMethod(method);
+    }
+
+    /**
+     * Returns the handlers checking the CSRF token of a request: parsing form bodies, then comparing the
+     * `X-CSRF-Token` header or the `_csrf` field with the cookie. Mismatches are answered with a 403.
+     */
+    public verifyCSRF(): RequestHandler[] {
+        const { cookie } = this.csrf;
+
+        return [express.urlencoded({ extended: true }), function csrf(req: Request, _: Response, next: NextFunction) {
+            if (/^bearer\s/i.test(req.get("authorization") ?? "")) return next();
+
+            const expected = readCookie(req, cookie);
+            const given = req.get(CSRF_HEADER) ?? (req.body as Record<string, unknown> | undefined)?.[CSRF_FIELD];
+            if (!expected || typeof given !== "string" || !tokensMatch(expected, given)) {
+                return next(new ForbiddenError("Invalid or missing CSRF token"));
+            }
+            next();
+        }];
+    }
+
+    /**
+     * Returns the handler checking the `Origin` of WebSocket handshakes: the application's own host or one
+     * of `allowedOrigins`. Others are answered with a 403. Handshakes without an `Origin` do not come from
+     * a browser page and pass.
+     */
+    public verifyOrigin(): RequestHandler {
+        const allowed = new Set((this.options.allowedOrigins ?? []).map((origin) => origin.replace(/\/$/, "").toLowerCase()));
+
+        return function origin(req: Request, _: Response, next: NextFunction) {
+            const given = req.get("origin");
+            if (given === undefined || allowed.has(given.toLowerCase())) return next();
+
+            let host: string | undefined;
+            try {
+                host = new URL(given).host;
+            } catch {
+                host = undefined;
+            }
+            if (host && host === req.get("host")?.toLowerCase()) return next();
+            next(new ForbiddenError(`Origin ${given} may not open this channel`));
+        };
+    }
+
+    /**
+     * Returns the handler enforcing a route's rate limit.
+     *
+     * @param options - The route's `rateLimit`.
+     * @param scope - Keeps the counters of one route apart from those of others, e.g. `POST /api/login`.
+     */
+    public rateLimit({ limit, window, key }: RateLimitOptions, scope: string): RequestHandler {
+        const store = this.store;
+        const policy = `${limit};w=${Math.ceil(window / 1000)}`;
+
+        return async function rateLimit(req: Request, res: Response, next: NextFunction) {
+            try {
+                const client = key?.(req) ?? getRequestContext(req)?.user?.id ?? req.ip ?? "unknown";
+                const { count, resetAt } = await store.hit(`${scope}:${client}`, window);
+                const reset = Math.max(0, Math.ceil((resetAt - Date.now()) / 1000));
+
+                res.set({
+                    "RateLimit-Limit": String(limit),
+                    "RateLimit-Remaining": String(Math.max(0, limit - count)),
+                    "RateLimit-Reset": String(reset),
+                    "RateLimit-Policy": policy,
+                });
+                if (count > limit) {
+                    res.set("Retry-After", String(reset));
+                    return next(new TooManyRequestsError(`Rate limit of ${limit} requests per ${window}ms exceeded`));
+                }
+                next();
+            } catch (error) {
+                next(error);
+            }
+        };
+    }
+
+    protected onSet(): void { }
+
+    protected onRemove(): void { }
+
+    protected onReset(): void { }
+}
@@ -0,0 +1,213 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ServiceValidationError } from "./HttpError";
+import { schema } from "./Schema";
+import Service from "./Service";
+import { ServiceChange } from "./types";
+
+type CartProps = { items: number; total: number; note?: string };
+
+class CartService extends Service<CartProps> {
+    constructor() { super({ items: 0, total: 0 }) }
+
+    protected onSet(): void { }
+
+    protected onRemove(): void { }
+
+    protected onReset(): void { }
+}
+
+/**
+ * Subscribes to every change of `service` and returns the batches the listener received.
+ */
+function record<ServiceProps extends Record<string, any>>(service: Service<ServiceProps>, key: keyof ServiceProps | "*" = "*") {
+    const batches: ServiceChange<ServiceProps>[][] = [];
+    service.subscribe(key, (changes) => batches.push(changes));
+    return batches;
+}
+
+describe("Service changes", () => {
+    it("notifies listeners of the keys they subscribed to until they unsubscribe", () => {
+        const cart = new CartService();
+        const all = record(cart);
+        const totals: unknown[] = [];
+        const unsubscribe = cart.subscribe("total", (changes) => totals.push(...changes.map((change) => change.type === "set" && change.value)));
+
+        cart.setValue("items", 1);
+        cart.setValue("total", 10);
+        unsubscribe();
+        cart.setValue("total", 20);
+
+        assert.equal(all.length, 3);
+        assert.deepEqual(all[0], [{ type: "set", key: "items", value: 1, previous: 0 }]);
+        assert.deepEqual(totals, [10]);
+    });
+
+    it("keeps notifying the other listeners when one throws", () => {
+        const cart = new CartService();
+        cart.subscribe("*", () => { throw new Error("listener failed") });
+        const batches = record(cart);
+
+        cart.setValue("items", 1);
+        assert.equal(batches.length, 1);
+    });
+
+    it("emits the changes of a transaction as one batch", () => {
+        const cart = new CartService();
+        const batches = record(cart);
+
+        const result = cart.transaction(() => {
+            cart.setValue("items", 2);
+            cart.setValue("total", 30);
+            cart.transaction(() => cart.setValue("note", "gift"));
+            return "done";
+        });
+
+        assert.equal(result, "done");
+        assert.deepEqual(batches, [[
+            { type: "set", key: "items", value: 2, previous: 0 },
+            { type: "set", key: "total", value: 30, previous: 0 },
+            { type: "set", key: "note", value: "gift", previous: undefined },
+        ]]);
+    });
+
+    it("rolls a failing transaction back without notifying", () => {
+        const cart = new CartService();
+        const batches = record(cart);
+
+        assert.throws(() => cart.transaction(() => {
+            cart.setValue("items", 2);
+            cart.removeProp("total");
+            throw new Error("payment declined");
+        }), /payment declined/);
+
+        assert.deepEqual(cart.getAllProps(), { items: 0, total: 0 });
+        assert.deepEqual(batches, []);
+        assert.equal(cart.undo(), false);
+    });
+
+    it("undoes and redoes a transaction as a single step", () => {
+        const cart = new CartService();
+        cart.setValue("items", 1);
+        cart.transaction(() => {
+            cart.setValue("items", 2);
+            cart.setValue("note", "gift");
+        });
+        const batches = record(cart);
+
+        assert.equal(cart.undo(), true);
+        assert.deepEqual(cart.getAllProps(), { items: 1, total: 0 });
+        assert.deepEqual(batches[0], [
+            { type: "set", key: "items", value: 1, previous: 2 },
+            { type: "remove", key: "note", previous: "gift" },
+        ]);
+
+        assert.equal(cart.redo(), true);
+        assert.deepEqual(cart.getAllProps(), { items: 2, total: 0, note: "gift" });
+        assert.equal(cart.redo(), false);
+    });
+
+    it("clears what can be redone on a new change", () => {
+        const cart = new CartService();
+        cart.setValue("items", 1);
+        cart.undo();
+
+        cart.setValue("total", 5);
+        assert.equal(cart.redo(), false);
+        assert.deepEqual(cart.getAllProps(), { items: 0, total: 5 });
+    });
+
+    it("drops the oldest history entries beyond historySize", () => {
+        class ShortHistoryCart extends CartService {
+            static historySize = 2;
+        }
+        const cart = new ShortHistoryCart();
+        for (const items of [1, 2, 3]) cart.setValue("items", items);
+
+        assert.equal(cart.undo(), true);
+        assert.equal(cart.undo(), true);
+        assert.equal(cart.undo(), false);
+        assert.equal(cart.getValue("items"), 1);
+    });
+
+    it("refuses to undo or redo inside a transaction", () => {
+        const cart = new CartService();
+        cart.setValue("items", 1);
+
+        assert.throws(() => cart.transaction(() => cart.undo()), /CartService cannot undo or redo inside a transaction/);
+        assert.equal(cart.getValue("items"), 1);
+    });
+});
+
+type BookingProps = { start: number; end: number; nights: number; guest?: string };
+
+class BookingService extends Service<BookingProps> {
+    constructor() {
+        super({ start: 1, end: 3 } as BookingProps);
+        this.registerRule("ordered", ["start", "end"], ({ start, end }) => start < end || "Start must come before end");
+        this.defineComputed("nights", ["start", "end"], ({ start, end }) => end - start);
+    }
+
+    protected onSet(): void { }
+
+    protected onRemove(): void { }
+
+    protected onReset(): void { }
+}
+
+describe("Service validation", () => {
+    it("reports every failing check in a ServiceValidationError", () => {
+        const booking = new BookingService();
+        booking.registerSchema("guest", schema.string({ min: 2 }));
+        booking.registerValidator("end", (end) => end <= 30, "withinMonth");
+
+        assert.throws(() => booking.setValue("end", 40), (error) => {
+            assert.ok(error instanceof ServiceValidationError);
+            assert.equal(error.status, 422);
+            assert.equal(error.service, "BookingService");
+            assert.deepEqual(error.issues, [{ location: "service", path: "end", message: "Failed withinMonth", rule: "withinMonth" }]);
+            return true;
+        });
+        assert.throws(() => booking.setValue("end", 0), (error: ServiceValidationError) => {
+            assert.deepEqual(error.issues, [{ location: "service", path: "", message: "Start must come before end", rule: "ordered" }]);
+            return true;
+        });
+        assert.throws(() => booking.setValue("guest", "A"), (error: ServiceValidationError) => error.issues[0].rule === "schema" && error.issues[0].path === "guest");
+        assert.deepEqual(booking.getAllProps(), { start: 1, end: 3, nights: 2 });
+    });
+
+    it("awaits asynchronous validators in update() and refuses them in setValue()", async () => {
+        const booking = new BookingService();
+        booking.registerValidator("guest", async (guest) => guest !== "blocked" || "Guest is blocked", "allowed");
+
+        assert.throws(() => booking.setValue("guest", "Ada"), /BookingService has asynchronous checks for guest; use update\(\) instead/);
+        await assert.rejects(booking.update({ guest: "blocked" }), (error: ServiceValidationError) => error.issues[0].message === "Guest is blocked");
+        assert.equal(booking.hasProp("guest"), false);
+
+        await booking.update({ guest: "Ada", end: 5 });
+        assert.deepEqual(booking.getAllProps(), { start: 1, end: 5, nights: 4, guest: "Ada" });
+    });
+
+    it("re-checks rules in update() when other properties change while validators are pending", async () => {
+        const booking = new BookingService();
+        let release!: () => void;
+        booking.registerValidator("end", () => new Promise<boolean>((resolve) => { release = () => resolve(true) }), "available");
+
+        const pending = booking.update({ end: 2 });
+        booking.setValue("start", 2.5);
+        release();
+
+        await assert.rejects(pending, (error: ServiceValidationError) => error.issues.some(({ rule }) => rule === "ordered"));
+        assert.deepEqual(booking.getAllProps(), { start: 2.5, end: 3, nights: 0.5 });
+    });
+
+    it("recomputes computed properties and refuses to set them", async () => {
+        const booking = new BookingService();
+        booking.setValue("end", 6);
+
+        assert.equal(booking.getValue("nights"), 5);
+        assert.throws(() => booking.setValue("nights", 1), /BookingService.nights is computed and cannot be set/);
+        await assert.rejects(booking.update({ nights: 1 }), /BookingService.nights is computed and cannot be set/);
+        assert.throws(() => booking.defineComputed("nights", [], () => 0), /BookingService.nights is already computed/);
+    });
+});
@@ -1,20 +1,99 @@
+import { Lifetime, PropertyRule, PropertyValidator, ServiceChange, ServiceConstructor, ServiceListener, ValidationIssue, ValidationResult } from "./types";
+import { PersistenceOptions, StoredState } from "./Persistence";
+import { Schema } from "./Schema";
+import { ServiceValidationError } from "./HttpError";
+import Logger from "./Logger";
+
 /**
  * Abstract `Service` class that provides a flexible and type-safe way to manage properties
  * and their validations, while supporting event hooks for property changes.
  *
+ * Services are created by the dependency injection `Container`. Declare the services a subclass
+ * depends on in `static inject`; they are passed to its constructor in the same order.
+ *
+ * Properties can be persisted by declaring `static persistence` with a storage adapter. `load()`
+ * replaces the initial properties with the stored ones, migrating them to the current `version`
+ * first; from then on every change is written after a short debounce. Singleton services are
+ * loaded at application startup and flushed on shutdown; the `Container` rejects persistence on
+ * any other lifetime.
+ *
+ * Every change is validated against the per-key schemas, validators and cross-field rules before it
+ * is applied; failures raise a `ServiceValidationError` listing each failing rule. Computed properties
+ * are derived from other keys, recompute when those change, and cannot be set directly.
+ *
+ * Changes can be observed without subclassing: `subscribe()` to a key or to `'*'`, group updates
+ * with `transaction()`, and step through the bounded change history with `undo()` and `redo()`.
+ *
+ * Singleton services can implement the `onInit`, `onReady` and `onShutdown` lifecycle hooks, e.g. to open
+ * and close connections.
+ *
  * @template ServiceProps - A record that defines the shape of the service properties.
  */
 export default abstract class Service<ServiceProps extends Record<string, any> = Record<string, any>> {
+    /**
+     * Services passed to the constructor, in order.
+     * Subclasses can override this property.
+     */
+    static inject: ServiceConstructor[] = [];
+
+    /**
+     * How long an instance lives. Defaults to `singleton`.
+     * Subclasses can override this property.
+     */
+    static lifetime: Lifetime = 'singleton';
+
+    /**
+     * Where and how the properties are persisted. Not persisted when unset.
+     * Subclasses can override this property.
+     */
+    static persistence?: PersistenceOptions;
+
+    /**
+     * How many updates `undo()` can revert. `0` disables the history.
+     * Subclasses can override this property.
+     */
+    static historySize = 50;
+
+    /**
+     * Logger scoped to the service's class name. Lines logged while handling a request carry its ID.
+     */
+    protected logger = new Logger(this.constructor.name);
+
     /**
      * Stores validation functions for specific properties.
      */
-    private validators: Partial<Record<keyof ServiceProps, (value: ServiceProps[keyof ServiceProps]) => boolean>> = {};
+    private validators: Partial<Record<keyof ServiceProps, { rule: string; validate: PropertyValidator<any, ServiceProps> }[]>> = {};
+
+    /**
+     * Stores the schema of specific properties.
+     */
+    private schemas: Partial<Record<keyof ServiceProps, Schema<any>>> = {};
+
+    /**
+     * Stores the cross-field rules and the properties they read.
+     */
+    private rules: { rule: string; keys: (keyof ServiceProps)[]; check: PropertyRule<ServiceProps> }[] = [];
+
+    /**
+     * Stores the computed properties in definition order.
+     */
+    private computed: { key: keyof ServiceProps; inputs: (keyof ServiceProps)[]; compute: (properties: ServiceProps) => unknown }[] = [];
 
     /**
      * Stores all properties managed by the service.
      */
     private properties: ServiceProps;
 
+    private loading?: Promise<void>;
+    private loaded = false;
+    private persistTimer?: NodeJS.Timeout;
+    private persisting: Promise<void> = Promise.resolve();
+
+    private listeners = new Map<keyof ServiceProps | '*', Set<ServiceListener<ServiceProps>>>();
+    private batch?: { before: ServiceProps; changes: ServiceChange<ServiceProps>[] };
+    private past: { before: ServiceProps; after: ServiceProps }[] = [];
+    private future: { before: ServiceProps; after: ServiceProps }[] = [];
+
     /**
      * Creates an instance of the `Service` class.
      *
@@ -29,14 +108,42 @@ export default abstract class Service<ServiceProps extends Record<string, any> =
      *
      * @param key - The property key to set.
      * @param newValue - The new value to assign to the property.
-     * @throws If the value fails validation.
+     * @throws A `ServiceValidationError` if the value fails validation, or an error if the property
+     * is computed or has asynchronous checks (use `update()` for those).
      */
     setValue<PropKey extends keyof ServiceProps>(key: PropKey, newValue: ServiceProps[PropKey]): void {
-        if (this.validators[key] && !this.validators[key]!(newValue)) {
-            throw new Error(`Validation failed for property '${String(key)}'`);
+        this.assertWritable([key]);
+        const candidate = { ...this.properties, [key]: newValue };
+        this.assertValid(candidate, [key]);
+        this.write(key, candidate[key]);
+    }
+
+    /**
+     * Sets several properties at once, awaiting asynchronous validators. The values are applied as a
+     * single transaction once every check has passed. Rules are checked again when other properties
+     * changed while the checks were pending, so they hold for the properties actually committed.
+     *
+     * @param values - The properties to set.
+     * @throws A `ServiceValidationError` listing every failing check, or an error if a property is computed.
+     */
+    async update(values: Partial<ServiceProps>): Promise<void> {
+        const keys = Object.keys(values) as (keyof ServiceProps)[];
+        this.assertWritable(keys);
+
+        let checked = { ...this.properties };
+        const candidate = { ...checked, ...values };
+        await this.assertValidAsync(candidate, keys);
+
+        while (this.changedSince(checked)) {
+            checked = { ...this.properties };
+            const current = { ...checked };
+            for (const key of keys) current[key] = candidate[key];
+            await this.assertValidAsync(current, keys, 'rules');
         }
-        this.properties[key] = newValue;
-        this.onSet?.(key, newValue);
+
+        this.transaction(() => {
+            for (const key of keys) this.write(key, candidate[key]);
+        });
     }
 
     /**
@@ -50,40 +157,97 @@ export default abstract class Service<ServiceProps extends Record<string, any> =
     }
 
     /**
-     * Registers a validation function for a property.
+     * Registers a validation function for a property. A property can have several validators; they run
+     * after its schema, in registration order. Asynchronous validators are only awaited by `update()`.
      *
      * @param key - The property key for which to register the validator.
-     * @param validator - A function to validate the property's value.
+     * @param validator - A function returning `false` or a message when the value is invalid.
+     * @param rule - Name reported when the validator fails. Defaults to the function name.
      */
     registerValidator<PropKey extends keyof ServiceProps>(
         key: PropKey,
-        validator: (value: ServiceProps[PropKey]) => boolean
+        validator: PropertyValidator<ServiceProps[PropKey], ServiceProps>,
+        rule: string = validator.name || 'validator'
+    ): void {
+        this.validators[key] = [...(this.validators[key] ?? []), { rule, validate: validator }];
+    }
+
+    /**
+     * Registers the schema of a property. Values are coerced by the schema before they are stored.
+     *
+     * @param key - The property key.
+     * @param schema - The schema, e.g. `schema.number({ integer: true })`.
+     */
+    registerSchema<PropKey extends keyof ServiceProps>(key: PropKey, schema: Schema<ServiceProps[PropKey]>): void {
+        this.schemas[key] = schema;
+    }
+
+    /**
+     * Registers a rule checking several properties together. It runs whenever one of `keys` changes.
+     *
+     * @param rule - Name reported when the rule fails.
+     * @param keys - The properties the rule reads.
+     * @param check - A function returning `false` or a message when the properties are invalid.
+     */
+    registerRule(rule: string, keys: (keyof ServiceProps)[], check: PropertyRule<ServiceProps>): void {
+        this.rules.push({ rule, keys, check });
+    }
+
+    /**
+     * Defines a property derived from others. It is computed right away, recomputed whenever one of
+     * `inputs` changes, and cannot be set, removed or reset directly. Define computed properties that
+     * read other computed properties after those.
+     *
+     * @param key - The computed property key.
+     * @param inputs - The properties the value is derived from.
+     * @param compute - Derives the value from the current properties.
+     * @throws If the property is already computed.
+     */
+    defineComputed<PropKey extends keyof ServiceProps>(
+        key: PropKey,
+        inputs: (keyof ServiceProps)[],
+        compute: (properties: Readonly<ServiceProps>) => ServiceProps[PropKey]
     ): void {
-        this.validators[key] = validator as (value: ServiceProps[keyof ServiceProps]) => boolean;
+        if (this.isComputed(key)) throw new Error(`[Service]: ${this.constructor.name}.${String(key)} is already computed`);
+
+        this.computed.push({ key, inputs, compute });
+        this.properties[key] = compute(this.properties);
     }
 
     /**
-     * Dynamically adds a new property to the service.
+     * Dynamically adds a new property to the service. The value is validated like in `setValue()`.
      *
      * @param key - The new property key.
      * @param value - The value to assign to the new property.
+     * @throws A `ServiceValidationError` if the value fails validation.
      */
     setNewProp<PropKey extends string, Value extends ServiceProps[keyof ServiceProps]>(
         key: PropKey,
         value: Value
     ): void {
-        (this.properties as any)[key] = value;
-        this.onSet?.(key as keyof ServiceProps, value);
+        this.assertWritable([key]);
+        const candidate = { ...this.properties, [key]: value };
+        this.assertValid(candidate, [key]);
+        this.write(key, candidate[key]);
     }
 
     /**
      * Removes a property from the service.
      *
      * @param key - The property key to remove.
+     * @throws A `ServiceValidationError` if the property is required by its schema or a rule.
      */
     removeProp<PropKey extends keyof ServiceProps>(key: PropKey): void {
-        delete this.properties[key];
-        this.onRemove?.(key);
+        this.assertWritable([key]);
+        const { [key]: _removed, ...candidate } = this.properties;
+        this.assertValid(candidate as ServiceProps, [key]);
+
+        this.mutate(() => {
+            const previous = this.properties[key];
+            delete this.properties[key];
+            this.onRemove?.(key);
+            return { type: 'remove', key, previous };
+        });
     }
 
     /**
@@ -109,10 +273,369 @@ export default abstract class Service<ServiceProps extends Record<string, any> =
      * Resets all properties to their default state.
      *
      * @param defaultProps - An optional object specifying default properties to set.
+     * @throws A `ServiceValidationError` if the defaults fail a schema, validator or rule.
      */
     resetProps(defaultProps: Partial<ServiceProps> = {}): void {
-        this.properties = { ...defaultProps } as ServiceProps;
-        this.onReset?.();
+        const candidate = { ...defaultProps } as ServiceProps;
+        const checked = new Set([...Object.keys(defaultProps), ...Object.keys(this.schemas), ...this.rules.flatMap(({ keys }) => keys)]);
+        this.assertValid(candidate, [...checked].filter((key) => !this.isComputed(key)));
+        defaultProps = candidate;
+
+        this.mutate(() => {
+            const previous = this.properties;
+            this.properties = { ...defaultProps } as ServiceProps;
+            this.onReset?.();
+            return { type: 'reset', value: defaultProps, previous };
+        });
+    }
+
+    /**
+     * Listens to changes of a single property, or of every property with `'*'`.
+     * A reset notifies every listener.
+     *
+     * @param key - The property key to observe, or `'*'`.
+     * @param listener - Called once per update with the relevant changes.
+     * @returns A function that removes the listener.
+     */
+    subscribe(key: keyof ServiceProps | '*', listener: ServiceListener<ServiceProps>): () => void {
+        const listeners = this.listeners.get(key) ?? new Set();
+        listeners.add(listener);
+        this.listeners.set(key, listeners);
+
+        return () => {
+            listeners.delete(listener);
+            if (!listeners.size) this.listeners.delete(key);
+        };
+    }
+
+    /**
+     * Applies several updates as one: listeners are notified once, the history gets a single entry and
+     * the properties are persisted once. If `update` throws, every change it made is rolled back,
+     * no listener is notified, and the error is rethrown. Nested transactions join the outer one.
+     *
+     * @param update - Synchronous function making the changes.
+     * @returns The value returned by `update`.
+     */
+    transaction<Result>(update: () => Result): Result {
+        if (this.batch) return update();
+
+        const batch = this.batch = { before: { ...this.properties }, changes: [] };
+        try {
+            const result = update();
+            this.batch = undefined;
+            if (batch.changes.length) this.commit(batch.before, batch.changes);
+            return result;
+        } catch (error) {
+            this.properties = batch.before;
+            this.batch = undefined;
+            throw error;
+        }
+    }
+
+    /**
+     * Reverts the most recent update.
+     *
+     * @returns `false` if there is nothing to undo.
+     * @throws If called inside a transaction.
+     */
+    undo(): boolean {
+        const entry = this.travel(this.past, this.future);
+        if (entry) this.restore(entry.before);
+        return Boolean(entry);
+    }
+
+    /**
+     * Re-applies the most recently undone update. Any new update clears what can be redone.
+     *
+     * @returns `false` if there is nothing to redo.
+     * @throws If called inside a transaction.
+     */
+    redo(): boolean {
+        const entry = this.travel(this.future, this.past);
+        if (entry) this.restore(entry.after);
+        return Boolean(entry);
+    }
+
+    /**
+     * Moves the latest history entry from one stack to the other.
+     */
+    private travel(from: typeof this.past, to: typeof this.past) {
+        if (this.batch) throw new Error(`[Service]: ${this.constructor.name} cannot undo or redo inside a transaction`);
+
+        const entry = from.pop();
+        if (entry) to.push(entry);
+        return entry;
+    }
+
+    private isComputed(key: keyof ServiceProps): boolean {
+        return this.computed.some((entry) => entry.key === key);
+    }
+
+    /**
+     * @throws If one of the keys is a computed property.
+     */
+    private assertWritable(keys: (keyof ServiceProps)[]) {
+        const key = keys.find((candidate) => this.isComputed(candidate));
+        if (key !== undefined) throw new Error(`[Service]: ${this.constructor.name}.${String(key)} is computed and cannot be set`);
+    }
+
+    /**
+     * Turns the outcome of a validator or rule into an issue, if it failed.
+     */
+    private toIssue(path: string, rule: string, result: ValidationResult): ValidationIssue | undefined {
+        if (result === false) return { location: 'service', path, message: `Failed ${rule}`, rule };
+        if (typeof result === 'string') return { location: 'service', path, message: result, rule };
+    }
+
+    /**
+     * Runs the schemas and validators of the given keys, and the rules reading them, against the properties
+     * as they would be after the change. Schema output replaces the candidate values, so coerced values are stored.
+     * With the `rules` scope, only the rules run.
+     *
+     * @returns The synchronous issues, and the pending results of asynchronous checks.
+     */
+    private inspect(candidate: ServiceProps, keys: (keyof ServiceProps)[], scope: 'all' | 'rules' = 'all') {
+        const issues: ValidationIssue[] = [];
+        const pending: Promise<ValidationIssue | undefined>[] = [];
+        const collect = (path: string, rule: string, result: ValidationResult | Promise<ValidationResult>) => {
+            if (result instanceof Promise) pending.push(result.then((resolved) => this.toIssue(path, rule, resolved)));
+            else {
+                const issue = this.toIssue(path, rule, result);
+                if (issue) issues.push(issue);
+            }
+        };
+
+        for (const key of scope === 'all' ? keys : []) {
+            const path = String(key);
+            const present = key in candidate;
+
+            const schema = this.schemas[key];
+            if (schema) {
+                const schemaIssues: ValidationIssue[] = [];
+                const value = schema.validate(candidate[key], { location: 'service', path: [path], issues: schemaIssues });
+                if (schemaIssues.length) {
+                    issues.push(...schemaIssues.map((issue) => ({ ...issue, rule: 'schema' })));
+                    continue;
+                }
+                if (present) candidate[key] = value;
+            }
+
+            if (!present) continue;
+            for (const { rule, validate } of this.validators[key] ?? []) collect(path, rule, validate(candidate[key], candidate));
+        }
+
+        for (const { rule, keys: inputs, check } of this.rules) {
+            if (inputs.some((input) => keys.includes(input))) collect('', rule, check(candidate));
+        }
+
+        return { issues, pending };
+    }
+
+    /**
+     * Validates a synchronous change.
+     *
+     * @throws A `ServiceValidationError` for failed checks, or an error if a check is asynchronous.
+     */
+    private assertValid(candidate: ServiceProps, keys: (keyof ServiceProps)[]) {
+        const { issues, pending } = this.inspect(candidate, keys);
+        if (issues.length) throw new ServiceValidationError(this.constructor.name, issues);
+
+        if (pending.length) {
+            for (const result of pending) result.catch(() => { });
+            throw new Error(`[Service]: ${this.constructor.name} has asynchronous checks for ${keys.map(String).join(', ')}; use update() instead`);
+        }
+    }
+
+    /**
+     * Validates a change, awaiting asynchronous checks.
+     *
+     * @throws A `ServiceValidationError` listing every failed check.
+     */
+    private async assertValidAsync(candidate: ServiceProps, keys: (keyof ServiceProps)[], scope: 'all' | 'rules' = 'all') {
+        const { issues, pending } = this.inspect(candidate, keys, scope);
+        for (const issue of await Promise.all(pending)) if (issue) issues.push(issue);
+        if (issues.length) throw new ServiceValidationError(this.constructor.name, issues);
+    }
+
+    /**
+     * Checks whether any property differs from a snapshot.
+     */
+    private changedSince(snapshot: ServiceProps): boolean {
+        const keys = new Set([...Object.keys(snapshot), ...Object.keys(this.properties)]);
+        return [...keys].some((key) => !Object.is(snapshot[key], this.properties[key]));
+    }
+
+    /**
+     * Stores an already validated value.
+     */
+    private write(key: keyof ServiceProps, value: unknown) {
+        this.mutate(() => {
+            const previous = this.properties[key];
+            this.properties[key] = value as ServiceProps[keyof ServiceProps];
+            this.onSet?.(key, value as ServiceProps[keyof ServiceProps]);
+            return { type: 'set', key, value, previous };
+        });
+    }
+
+    /**
+     * Recomputes the computed properties depending on the changed keys, or all of them after a reset.
+     *
+     * @returns A change for every computed property whose value changed.
+     */
+    private recompute(changed: Set<keyof ServiceProps> | 'all'): ServiceChange<ServiceProps>[] {
+        const changes: ServiceChange<ServiceProps>[] = [];
+        for (const { key, inputs, compute } of this.computed) {
+            if (changed !== 'all' && !inputs.some((input) => changed.has(input))) continue;
+
+            const previous = this.properties[key];
+            const value = compute(this.properties) as ServiceProps[keyof ServiceProps];
+            if (Object.is(previous, value) && key in this.properties) continue;
+
+            this.properties[key] = value;
+            if (changed !== 'all') changed.add(key);
+            changes.push({ type: 'set', key, value, previous });
+        }
+        return changes;
+    }
+
+    /**
+     * Runs a single change and updates the computed properties, committing right away unless a transaction is open.
+     */
+    private mutate(change: () => ServiceChange<ServiceProps>) {
+        const before = this.batch ? undefined : { ...this.properties };
+        const recorded = change();
+        const changes = [recorded, ...this.recompute(recorded.type === 'reset' ? 'all' : new Set([recorded.key]))];
+
+        if (this.batch) this.batch.changes.push(...changes);
+        else this.commit(before!, changes);
+    }
+
+    /**
+     * Records an update in the history, persists it and notifies listeners.
+     */
+    private commit(before: ServiceProps, changes: ServiceChange<ServiceProps>[]) {
+        const { historySize } = this.constructor as typeof Service;
+        if (historySize > 0) {
+            this.past.push({ before, after: { ...this.properties } });
+            if (this.past.length > historySize) this.past.shift();
+        }
+        this.future = [];
+
+        this.schedulePersist();
+        this.notify(changes);
+    }
+
+    /**
+     * Replaces the properties with a snapshot from the history and notifies the resulting changes.
+     */
+    private restore(snapshot: ServiceProps) {
+        const changes: ServiceChange<ServiceProps>[] = [];
+        for (const key of new Set<keyof ServiceProps>([...Object.keys(this.properties), ...Object.keys(snapshot)])) {
+            if (!(key in snapshot)) changes.push({ type: 'remove', key, previous: this.properties[key] });
+            else if (this.properties[key] !== snapshot[key]) changes.push({ type: 'set', key, value: snapshot[key], previous: this.properties[key] });
+        }
+
+        this.properties = { ...snapshot };
+        this.schedulePersist();
+        this.notify(changes);
+    }
+
+    /**
+     * Calls every listener once with the changes relevant to it. A failing listener does not stop the others.
+     */
+    private notify(changes: ServiceChange<ServiceProps>[]) {
+        for (const [key, listeners] of this.listeners) {
+            const relevant = key === '*' ? changes : changes.filter((change) => change.type === 'reset' || change.key === key);
+            if (!relevant.length) continue;
+
+            for (const listener of [...listeners]) {
+                try {
+                    listener(relevant);
+                } catch (error) {
+                    this.logger.error(`A listener failed`, error);
+                }
+            }
+        }
+    }
+
+    /**
+     * The persistence settings of the concrete subclass, with their defaults applied.
+     */
+    private get persistence() {
+        const ServiceClass = this.constructor as typeof Service;
+        if (!ServiceClass.persistence) return undefined;
+
+        const { key = ServiceClass.name, version = 1, migrations = {}, debounce = 100, adapter } = ServiceClass.persistence;
+        return { key, version, migrations, debounce, adapter };
+    }
+
+    /**
+     * Loads the stored properties, migrating them to the current version. Runs once; later calls
+     * return the same Promise. Changes made before loading completes are not persisted.
+     *
+     * @throws If the stored version is newer than the current one or a migration is missing.
+     */
+    public load(): Promise<void> {
+        this.loading ??= (async () => {
+            const persistence = this.persistence;
+            if (!persistence) return;
+
+            const { key, version, migrations, adapter } = persistence;
+            const stored = await adapter.load(key);
+            if (stored && stored.version > version) {
+                throw new Error(`[Service]: Stored properties of ${key} are version ${stored.version}, newer than ${version}`);
+            }
+
+            let properties = stored?.properties;
+            for (let target = (stored?.version ?? version) + 1; properties && target <= version; target++) {
+                if (!migrations[target]) throw new Error(`[Service]: No migration of ${key} to version ${target}`);
+                properties = await migrations[target](properties);
+            }
+
+            if (properties) {
+                this.properties = properties as ServiceProps;
+                this.recompute('all');
+                this.past = [];
+                this.future = [];
+            }
+            this.loaded = true;
+
+            // Store migrated properties right away, so migrations run only once
+            if (stored && stored.version < version) await this.flush();
+        })();
+        return this.loading;
+    }
+
+    /**
+     * Writes pending changes immediately.
+     */
+    public async flush(): Promise<void> {
+        clearTimeout(this.persistTimer);
+        this.persistTimer = undefined;
+
+        const persistence = this.persistence;
+        if (!persistence || !this.loaded) return;
+
+        const { key, version, adapter } = persistence;
+        const state: StoredState = { version, properties: JSON.parse(JSON.stringify(this.properties)) };
+
+        // Writes are chained so they land in the order the changes were made
+        const write = this.persisting.then(() => adapter.save(key, state));
+        this.persisting = write.catch(() => { });
+        await write;
+    }
+
+    /**
+     * Schedules a write once changes stop for the debounce interval.
+     */
+    private schedulePersist() {
+        const persistence = this.persistence;
+        if (!persistence || !this.loaded) return;
+
+        clearTimeout(this.persistTimer);
+        this.persistTimer = setTimeout(() => {
+            this.flush().catch((error) => this.logger.error(`Failed to persist ${persistence.key}`, error));
+        }, persistence.debounce);
     }
 
     /**
@@ -137,4 +660,22 @@ export default abstract class Service<ServiceProps extends Record<string, any> =
      * Can be overridden in subclasses.
      */
     protected abstract onReset?(): void;
+
+    /**
+     * Lifecycle hook executed at startup, after the properties are loaded and before the server accepts
+     * requests. A failure aborts startup. Only singleton services run lifecycle hooks; see `LifecycleHooks`
+     * for the order they run in.
+     */
+    public onInit?(): void | Promise<void>;
+
+    /**
+     * Lifecycle hook executed once the server accepts requests.
+     */
+    public onReady?(): void | Promise<void>;
+
+    /**
+     * Lifecycle hook executed on shutdown, once in-flight requests have drained. Changes made here are
+     * still persisted.
+     */
+    public onShutdown?(): void | Promise<void>;
 }
@@ -1,4 +1,7 @@
 import { Connect, createServer, InlineConfig, ViteDevServer } from "vite";
+import Logger from "./Logger";
+
+const logger = new Logger("VDS");
 
 /**
  * Vite Development Server (VDS) Class
@@ -10,9 +13,12 @@ import { Connect, createServer, InlineConfig, ViteDevServer } from "vite";
  *
  * Features:
  * - Dynamically transforms HTML templates for development mode.
+ * - Loads view modules through Vite's SSR pipeline so edits are picked up without a restart.
  * - Provides Connect-compatible middleware for seamless server integration.
  * - Ensures a single ViteDevServer instance is created and shared across operations.
- * - Includes lifecycle management for proper startup and shutdown.
+ * - Includes lifecycle management for proper startup and shutdown. The server is created on first use and
+ *   installs no process handlers; whoever owns the process calls `shutdownVDS()`, e.g. `Application` on
+ *   shutdown, so cleanup does not race with connection draining.
  *
  * Usage:
  * 1. Pass an HTML template string and optional custom Vite configuration to the constructor.
@@ -40,6 +46,7 @@ import { Connect, createServer, InlineConfig, ViteDevServer } from "vite";
 export default class VDS {
     private promiseVDS: Promise<ViteDevServer> | null = null;
     private instanceVDS: ViteDevServer | null = null;
+    private failed = false;
 
     private readonly configVDS: InlineConfig;
 
@@ -53,14 +60,12 @@ export default class VDS {
         this.configVDS = {
             ...customConfig,
             root: customConfig.root || process.cwd(),
+            appType: customConfig.appType ?? 'custom',
             server: {
                 middlewareMode: true,
                 ...customConfig.server,
             },
         };
-
-        process.on("exit", () => this.shutdownVDS().catch(() => { }));
-        process.on("SIGINT", () => this.shutdownVDS().catch(() => process.exit(1)));
     }
 
     /**
@@ -72,11 +77,11 @@ export default class VDS {
         if (this.instanceVDS) return this.instanceVDS;
 
         if (this.promiseVDS) {
-            console.log("ViteDevServer is being initialized. Awaiting existing promise.");
+            logger.debug("ViteDevServer is being initialized. Awaiting existing promise.");
             return this.promiseVDS;
         }
 
-        console.log("Creating new ViteDevServer instance.");
+        logger.info("Creating new ViteDevServer instance.");
 
         this.promiseVDS = createServer(this.configVDS)
 
@@ -87,20 +92,39 @@ export default class VDS {
 
             .catch((error) => {
                 this.instanceVDS = null;
-                console.error(`Failed to create ViteDevServer: ${(error as Error).message}`);
+                this.failed = true;
+                logger.error("Failed to create ViteDevServer", error);
                 throw error;
             });
 
         return this.promiseVDS;
     }
 
+    /**
+     * Returns whether the ViteDevServer is running, still being created, failed to start, or not started (or shut down).
+     */
+    public getStatus(): 'running' | 'starting' | 'failed' | 'stopped' {
+        if (this.instanceVDS) return 'running';
+        if (this.failed) return 'failed';
+        return this.promiseVDS ? 'starting' : 'stopped';
+    }
+
     /**
      * Transforms the provided HTML template using ViteDevServer.
      *
      * @param targetURL - The target URL for transforming the template.
+     * @param template - The HTML to transform. Defaults to the template passed to the constructor.
      * @returns A Promise resolving to the transformed HTML template.
      */
-    public async transformTemplate(targetURL: string): Promise<string> { return (await this.getVDS()).transformIndexHtml(targetURL, this.template) }
+    public async transformTemplate(targetURL: string, template: string = this.template): Promise<string> { return (await this.getVDS()).transformIndexHtml(targetURL, template) }
+
+    /**
+     * Loads a module through Vite's SSR pipeline, picking up the latest edits on every call.
+     *
+     * @param file - Path of the module, absolute or relative to the Vite root.
+     * @returns A Promise resolving to the module's exports.
+     */
+    public async loadModule(file: string): Promise<Record<string, any>> { return (await this.getVDS()).ssrLoadModule(file) }
 
     /**
      * Returns the Vite middleware for integration with an Express server.
@@ -120,20 +144,21 @@ export default class VDS {
      * Gracefully shuts down the ViteDevServer instance.
      */
     public async shutdownVDS(): Promise<void> {
-        console.log(`[VDS]: Attempting to shut down ViteDevServer...`);
+        logger.debug(`Attempting to shut down ViteDevServer...`);
         if (!this.instanceVDS) {
-            console.log(`[VDS]: ViteDevServer is already shut down.`);
+            logger.debug(`ViteDevServer is already shut down.`);
             return;
         }
 
         try {
             await this.instanceVDS.close();
-            console.log(`[VDS]: ViteDevServer has been shut down successfully.`);
+            logger.info(`ViteDevServer has been shut down successfully.`);
         } catch (error) {
-            console.error(`[VDS]: Error shutting down ViteDevServer:`, error);
+            logger.error(`Error shutting down ViteDevServer`, error);
         } finally {
             this.instanceVDS = null;
             this.promiseVDS = null;
+            this.failed = false;
         }
     }
 }
@@ -0,0 +1,206 @@
+import { createContext, useContext } from "react";
+import { AuthUser, LoaderResult, NotFoundResult, RedirectResult, ViewDefinition, ViewEntry } from "./types";
+
+/**
+ * Tags loader results that are instructions rather than data. `Symbol.for` keeps the tag identical
+ * across module instances, e.g. views loaded through the `VDS` SSR pipeline in development.
+ */
+export const VIEW_RESULT: unique symbol = Symbol.for("movico.viewResult");
+
+/**
+ * Id of the `<script type="application/json">` element carrying the loader data to the client.
+ */
+export const LOADER_DATA_ID = "__MOVICO_DATA__";
+
+/**
+ * Id of the `<script type="application/json">` element carrying the authenticated user to the client.
+ */
+export const USER_DATA_ID = "__MOVICO_USER__";
+
+/**
+ * Query parameter a reconnecting channel client sends the id of the last message it received in, so
+ * the messages it missed are replayed. Server-Sent Events also send it in the `Last-Event-ID` header.
+ */
+export const LAST_EVENT_ID_PARAM = "lastEventId";
+
+/**
+ * Name of the `<meta>` tag carrying the CSRF token to the client.
+ */
+export const CSRF_META_NAME = "csrf-token";
+
+/**
+ * Request header carrying the CSRF token, e.g. for `fetch` calls. Forms send it in the `CSRF_FIELD` field instead.
+ */
+export const CSRF_HEADER = "X-CSRF-Token";
+
+/**
+ * Form field carrying the CSRF token.
+ */
+export const CSRF_FIELD = "_csrf";
+
+/**
+ * Reserved `ViewMap` path of the page rendered for 404s. It is not routed itself.
+ */
+export const NOT_FOUND_VIEW = "/404";
+
+/**
+ * Reserved `ViewMap` path of the page rendered for other errors. It is not routed itself.
+ * Both error views receive the problem details as their `data` prop.
+ */
+export const ERROR_VIEW = "/_error";
+
+/**
+ * Request header asking a view for its loader data as JSON instead of a rendered page,
+ * sent by the client router during navigation.
+ */
+export const LOADER_DATA_HEADER = "X-Movico-Data";
+
+/**
+ * Provides the current view's loader data to `useLoaderData()`.
+ */
+export const LoaderDataContext = createContext<unknown>(undefined);
+
+/**
+ * Provides the authenticated user to `useUser()`.
+ */
+export const UserContext = createContext<AuthUser | null>(null);
+
+/**
+ * Provides the CSRF token to `useCsrfToken()`.
+ */
+export const CsrfTokenContext = createContext<string | null>(null);
+
+/**
+ * Checks whether a value can be used as a `ViewMap` entry: a component or a `ViewDefinition`.
+ */
+export function isViewEntry(value: unknown): value is ViewEntry {
+    if (typeof value === "function") return true;
+    return Boolean(value) && typeof value === "object" && typeof (value as ViewDefinition).component === "function";
+}
+
+/**
+ * Normalizes a `ViewMap` entry into a `ViewDefinition`.
+ */
+export function toViewDefinition(entry: ViewEntry): ViewDefinition {
+    return typeof entry === "function" ? { component: entry } : entry;
+}
+
+/**
+ * Finds the view registered for a path among the exports of a view module.
+ */
+export function findViewInModule(exports: Record<string, any>, path: string): ViewDefinition | undefined {
+    for (const value of Object.values(exports)) {
+        if (value && typeof value === "object" && isViewEntry(value[path])) return toViewDefinition(value[path]);
+    }
+}
+
+/**
+ * Identity helper that infers a view's data type from its loader, so the component's `data` prop is typed.
+ */
+export function defineView<Data>(view: ViewDefinition<Data>): ViewDefinition<Data> {
+    return view;
+}
+
+/**
+ * Loader result that answers the page request with a redirect.
+ *
+ * @param location - The URL to redirect to.
+ * @param status - The redirect status code. Defaults to `302`.
+ */
+export function redirect(location: string, status: number = 302): RedirectResult {
+    return { [VIEW_RESULT]: "redirect", location, status };
+}
+
+/**
+ * Loader result that answers the page request with a 404.
+ */
+export function notFound(): NotFoundResult {
+    return { [VIEW_RESULT]: "notFound" };
+}
+
+export function isRedirect(result: LoaderResult<unknown>): result is RedirectResult {
+    return Boolean(result) && typeof result === "object" && (result as RedirectResult)[VIEW_RESULT] === "redirect";
+}
+
+export function isNotFound(result: LoaderResult<unknown>): result is NotFoundResult {
+    return Boolean(result) && typeof result === "object" && (result as NotFoundResult)[VIEW_RESULT] === "notFound";
+}
+
+/**
+ * Escapes text for safe interpolation into HTML.
+ */
+export function escapeHtml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+}
+
+/**
+ * Serializes loader data for embedding in a `<script type="application/json">` element.
+ * Characters that could close the script or be misparsed as HTML are escaped, so data containing
+ * user input cannot inject markup.
+ */
+export function serializeLoaderData(data: unknown): string {
+    return (JSON.stringify(data) ?? "null")
+        .replace(/</g, "\\u003c")
+        .replace(/>/g, "\\u003e")
+        .replace(/&/g, "\\u0026")
+        .replace(/\u2028/g, "\\u2028")
+        .replace(/\u2029/g, "\\u2029");
+}
+
+/**
+ * Reads the loader data embedded by the server, for hydration on the client.
+ *
+ * @returns The data, or `undefined` when the page has none.
+ */
+export function readLoaderData<Data = unknown>(): Data | undefined {
+    const element = typeof document !== "undefined" ? document.getElementById(LOADER_DATA_ID) : null;
+    return element?.textContent ? JSON.parse(element.textContent) : undefined;
+}
+
+/**
+ * Reads the authenticated user embedded by the server, for hydration on the client.
+ *
+ * @returns The user, or `null` when the page was rendered for an anonymous request.
+ */
+export function readUser(): AuthUser | null {
+    const element = typeof document !== "undefined" ? document.getElementById(USER_DATA_ID) : null;
+    return element?.textContent ? JSON.parse(element.textContent) : null;
+}
+
+/**
+ * Returns the authenticated user, or `null` for anonymous requests. On the client, it is the user the
+ * page was rendered for, until the next full page load, e.g. after signing in or out.
+ */
+export function useUser<User extends AuthUser = AuthUser>(): User | null {
+    return useContext(UserContext) as User | null;
+}
+
+/**
+ * Reads the CSRF token the server added to the page.
+ *
+ * @returns The token, or `null` when CSRF protection is off.
+ */
+export function readCsrfToken(): string | null {
+    return typeof document !== "undefined" ? document.querySelector<HTMLMetaElement>(`meta[name="${CSRF_META_NAME}"]`)?.content ?? null : null;
+}
+
+/**
+ * Returns the CSRF token to send with forms posting to controller routes, or `null` when CSRF protection is off.
+ *
+ * Example:
+ * ```tsx
+ * <form method="post" action="/api/profile">
+ *     <input type="hidden" name={CSRF_FIELD} value={useCsrfToken() ?? ''} />
+ * </form>
+ * ```
+ */
+export function useCsrfToken(): string | null {
+    return useContext(CsrfTokenContext);
+}
+
+/**
+ * Returns the current view's loader data, on the server and after hydration on the client.
+ */
+export function useLoaderData<Data = unknown>(): Data {
+    return useContext(LoaderDataContext) as Data;
+}
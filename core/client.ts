@@ -0,0 +1,291 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ProblemDetails } from "./HttpError";
+import { ChannelMessage, ChannelTransport } from "./types";
+import { CSRF_HEADER, LAST_EVENT_ID_PARAM, readCsrfToken } from "./View";
+
+/**
+ * The parts of a request a generated client function accepts. Path params are substituted into the path.
+ */
+export interface RequestInput {
+    params?: Record<string, string | number>;
+    query?: Record<string, unknown>;
+    body?: unknown;
+    headers?: Record<string, unknown>;
+}
+
+/**
+ * Raised by generated client functions for non-2xx responses. Carries the problem details of the
+ * application error handler when the server sent them.
+ */
+export class ApiError extends Error {
+    constructor(public readonly status: number, public readonly problem?: ProblemDetails) {
+        super(problem?.detail ?? problem?.title ?? `Request failed with status ${status}`);
+        this.name = "ApiError";
+    }
+}
+
+/**
+ * Builds the URL of a request from an OpenAPI path and the input.
+ */
+function toURL(path: string, { params = {}, query = {} }: RequestInput): string {
+    const url = path.replace(/\{(\w+)\}/g, (_, name: string) => encodeURIComponent(String(params[name])));
+
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+        for (const item of Array.isArray(value) ? value : [value]) {
+            if (item !== undefined && item !== null) search.append(key, String(item));
+        }
+    }
+
+    const queryString = search.toString();
+    return queryString ? `${url}?${queryString}` : url;
+}
+
+/**
+ * Sends a request to one of the application's routes. Used by the generated client module.
+ * Requests with unsafe methods carry the CSRF token of the page.
+ *
+ * @param method - The HTTP method.
+ * @param path - The OpenAPI path, e.g. `/api/users/{id}`.
+ * @param input - Params, query, body and headers.
+ * @param init - Extra `fetch` options, e.g. an abort `signal`.
+ * @returns The parsed JSON body, the text body, or `undefined` for empty responses.
+ * @throws An `ApiError` for non-2xx responses.
+ */
+export async function request<Output>(method: string, path: string, input: RequestInput = {}, init: RequestInit = {}): Promise<Output> {
+    const headers = new Headers(init.headers);
+    for (const [key, value] of Object.entries(input.headers ?? {})) {
+        if (value !== undefined) headers.set(key, String(value));
+    }
+    headers.set("Accept", "application/json, application/problem+json");
+    if (input.body !== undefined) headers.set("Content-Type", "application/json");
+
+    const csrfToken = readCsrfToken();
+    if (csrfToken && !["GET", "HEAD", "OPTIONS"].includes(method.toUpperCase()) && !headers.has(CSRF_HEADER)) headers.set(CSRF_HEADER, csrfToken);
+
+    const response = await fetch(toURL(path, input), {
+        ...init,
+        method: method.toUpperCase(),
+        headers,
+        body: input.body === undefined ? undefined : JSON.stringify(input.body),
+    });
+
+    const contentType = response.headers.get("Content-Type") ?? "";
+    const text = await response.text();
+    const body = text && contentType.includes("json") ? JSON.parse(text) : text || undefined;
+
+    if (!response.ok) throw new ApiError(response.status, contentType.includes("problem+json") ? body : undefined);
+    return body as Output;
+}
+
+/**
+ * A generated client function.
+ */
+export type ClientFunction<Input, Output> = (input: Input, init?: RequestInit) => Promise<Output>;
+
+export interface QueryState<Output> {
+    data: Output | undefined;
+    error: ApiError | Error | undefined;
+    loading: boolean;
+    /**
+     * Sends the request again.
+     */
+    reload: () => void;
+}
+
+/**
+ * Calls a generated client function when the component mounts and whenever the input changes.
+ * The previous request is aborted when the input changes or the component unmounts.
+ *
+ * Example:
+ * ```typescript
+ * const { data, error, loading } = useQuery(getApiUsersById, { params: { id } });
+ * ```
+ *
+ * @param call - The generated client function.
+ * @param input - Its input. Compared by value, so inline objects do not trigger extra requests.
+ */
+export function useQuery<Input, Output>(call: ClientFunction<Input, Output>, input: Input): QueryState<Output> {
+    const [state, setState] = useState<Omit<QueryState<Output>, "reload">>({ data: undefined, error: undefined, loading: true });
+    const [attempt, setAttempt] = useState(0);
+    const key = JSON.stringify(input);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        setState((previous) => ({ ...previous, loading: true, error: undefined }));
+
+        call(JSON.parse(key) as Input, { signal: controller.signal })
+            .then((data) => setState({ data, error: undefined, loading: false }))
+            .catch((error: Error) => {
+                if (!controller.signal.aborted) setState((previous) => ({ ...previous, error, loading: false }));
+            });
+
+        return () => controller.abort();
+    }, [call, key, attempt]);
+
+    const reload = useCallback(() => setAttempt((count) => count + 1), []);
+    return { ...state, reload };
+}
+
+export interface MutationState<Input, Output> {
+    data: Output | undefined;
+    error: ApiError | Error | undefined;
+    loading: boolean;
+    /**
+     * Sends the request. Resolves with the response data; failures are reported through `error` and rethrown.
+     */
+    mutate: (input: Input) => Promise<Output>;
+}
+
+/**
+ * Wraps a generated client function for requests triggered by the user, e.g. form submissions.
+ *
+ * Example:
+ * ```typescript
+ * const { mutate, loading, error } = useMutation(postApiUsers);
+ * ```
+ */
+export function useMutation<Input, Output>(call: ClientFunction<Input, Output>): MutationState<Input, Output> {
+    const [state, setState] = useState<Omit<MutationState<Input, Output>, "mutate">>({ data: undefined, error: undefined, loading: false });
+    const mounted = useRef(true);
+    useEffect(() => () => { mounted.current = false }, []);
+
+    const mutate = useCallback(async (input: Input) => {
+        setState((previous) => ({ ...previous, loading: true, error: undefined }));
+        try {
+            const data = await call(input);
+            if (mounted.current) setState({ data, error: undefined, loading: false });
+            return data;
+        } catch (error) {
+            if (mounted.current) setState((previous) => ({ ...previous, error: error as Error, loading: false }));
+            throw error;
+        }
+    }, [call]);
+
+    return { ...state, mutate };
+}
+
+/**
+ * Milliseconds before the first reconnect attempt of a channel; each failed attempt doubles it, up to
+ * `MAX_RECONNECT_DELAY`.
+ */
+const RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30 * 1000;
+
+export interface ChannelHookOptions<Message> {
+    /**
+     * Must match the channel's transport. Defaults to `sse`.
+     */
+    transport?: ChannelTransport;
+    /**
+     * Called with every message, while `data` only holds the last one.
+     */
+    onMessage?: (data: Message) => void;
+}
+
+export interface ChannelState<Message> {
+    /**
+     * The last message received, `undefined` until one arrives.
+     */
+    data: Message | undefined;
+    status: "connecting" | "open" | "closed";
+    /**
+     * Sends a message to a WebSocket channel as JSON. Does nothing while it is not open or on an SSE channel.
+     */
+    send: (data: unknown) => void;
+}
+
+/**
+ * Connects to one of the application's channels for as long as the component is mounted. Lost connections
+ * are reopened with an increasing delay, resuming after the last message received: the channel sends the
+ * messages missed meanwhile, or its current snapshot when too many were.
+ *
+ * Example:
+ * ```typescript
+ * const { data, status } = useChannel<{ visitors: number }>('/api/stats', { transport: 'websocket' });
+ * ```
+ *
+ * @param path - The channel's path.
+ */
+export function useChannel<Message = unknown>(path: string, options: ChannelHookOptions<Message> = {}): ChannelState<Message> {
+    const { transport = "sse" } = options;
+    const [data, setData] = useState<Message>();
+    const [status, setStatus] = useState<ChannelState<Message>["status"]>("connecting");
+    const socket = useRef<WebSocket>();
+    const onMessage = useRef(options.onMessage);
+    onMessage.current = options.onMessage;
+
+    useEffect(() => {
+        let lastEventId: string | undefined;
+        let attempts = 0;
+        let stopped = false;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let close = () => { };
+
+        const url = () => {
+            const target = new URL(path, window.location.href);
+            if (transport === "websocket") target.protocol = target.protocol === "https:" ? "wss:" : "ws:";
+            if (lastEventId !== undefined) target.searchParams.set(LAST_EVENT_ID_PARAM, lastEventId);
+            return target.toString();
+        };
+
+        const receive = ({ id, data: message }: ChannelMessage<Message>) => {
+            if (id !== undefined) lastEventId = id;
+            setData(() => message);
+            onMessage.current?.(message);
+        };
+
+        const open = () => {
+            attempts = 0;
+            setStatus("open");
+        };
+
+        const reconnect = () => {
+            close();
+            if (stopped) return;
+            setStatus("closed");
+            timer = setTimeout(connect, Math.min(RECONNECT_DELAY * 2 ** attempts++, MAX_RECONNECT_DELAY));
+        };
+
+        function connect() {
+            setStatus("connecting");
+            if (transport === "websocket") {
+                const webSocket = new WebSocket(url());
+                socket.current = webSocket;
+                webSocket.onopen = open;
+                webSocket.onmessage = (event) => receive(JSON.parse(String(event.data)));
+                webSocket.onclose = reconnect;
+                close = () => {
+                    webSocket.onclose = null;
+                    webSocket.close();
+                    socket.current = undefined;
+                };
+                return;
+            }
+
+            // The browser retries by itself after network errors, resuming with the Last-Event-ID header;
+            // responses it will not retry, e.g. errors, close the source and are retried here
+            const source = new EventSource(url());
+            source.onopen = open;
+            source.onmessage = (event) => receive({ id: event.lastEventId || undefined, data: JSON.parse(event.data) });
+            source.onerror = () => {
+                if (source.readyState === EventSource.CLOSED) reconnect();
+                else setStatus("connecting");
+            };
+            close = () => source.close();
+        }
+
+        connect();
+        return () => {
+            stopped = true;
+            clearTimeout(timer);
+            close();
+        };
+    }, [path, transport]);
+
+    const send = useCallback((message: unknown) => {
+        if (socket.current?.readyState === WebSocket.OPEN) socket.current.send(JSON.stringify(message));
+    }, []);
+
+    return { data, status, send };
+}
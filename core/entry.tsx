@@ -1,11 +1,93 @@
-import React from 'react';
-import ReactDOM from 'react-dom/client';
-import { BrowserRouter } from 'react-router-dom';
-import App from './App'; // Your main App component that uses react-router
-
-const rootElement = document.getElementById('root')!;
-ReactDOM.createRoot(rootElement).render(
-  <BrowserRouter>
-    <App />
-  </BrowserRouter>
-);
\ No newline at end of file
+import { useEffect } from 'react';
+import { hydrateRoot } from 'react-dom/client';
+import { createBrowserRouter, matchRoutes, redirect, RouteObject, RouterProvider, useLoaderData as useRouteData } from 'react-router-dom';
+import { CsrfTokenContext, findViewInModule, LOADER_DATA_HEADER, LoaderDataContext, readCsrfToken, readLoaderData, readUser, UserContext } from './View';
+import { resolveHead, updateDocumentHead } from './Head';
+
+/**
+ * A route of the generated client entry: a view path and the module exporting it.
+ */
+export interface ClientRoute {
+    path: string;
+    load: () => Promise<Record<string, unknown>>;
+}
+
+/**
+ * Fetches a view's loader data from the server during client-side navigation. Error responses are thrown
+ * as a `Response` with their status, for the route's error boundary.
+ */
+async function fetchLoaderData(request: Request) {
+    const response = await fetch(request.url, { headers: { [LOADER_DATA_HEADER]: '1' }, signal: request.signal });
+    if (!response.ok) throw new Response(await response.text(), { status: response.status, statusText: response.statusText });
+
+    const result = await response.json();
+    if (result.redirect) return redirect(result.redirect);
+    return result.data ?? null;
+}
+
+/**
+ * Builds a lazy react-router route for a view. The view module is only loaded when the route matches.
+ * The view's head is applied to the document whenever its data changes, e.g. after navigating to it.
+ * Views with a loader, `auth` or `roles` ask the server on every navigation, so its guard redirects
+ * anonymous users to the login view and answers users without the roles with a 403.
+ */
+function createRoute({ path, load }: ClientRoute): RouteObject {
+    return {
+        id: path,
+        path,
+        lazy: async () => {
+            const view = findViewInModule(await load(), path);
+            if (!view) throw new Error(`[Client]: View module for ${path} no longer exports it`);
+
+            const { component: Component, loader, auth, roles } = view;
+            const guarded = auth ?? Boolean(roles?.length);
+            return {
+                Component: () => {
+                    const data = useRouteData();
+                    useEffect(() => updateDocumentHead(resolveHead(view, data)), [data]);
+                    return (
+                        <LoaderDataContext.Provider value={data}>
+                            <Component data={data} />
+                        </LoaderDataContext.Provider>
+                    );
+                },
+                loader: loader || guarded ? ({ request }) => fetchLoaderData(request) : undefined,
+            };
+        },
+    };
+}
+
+/**
+ * Hydrates the server-rendered page.
+ *
+ * Builds the route table from the same `ViewMap` the server renders, resolves the lazy routes matching
+ * the current URL before hydrating so the first client render matches the server markup, and seeds the
+ * router with the loader data, `useUser()` with the user and `useCsrfToken()` with the token embedded in the page.
+ *
+ * @param routes - The routes of the generated client entry.
+ */
+export async function hydrateViews(routes: ClientRoute[]) {
+    const routeObjects = routes.map(createRoute);
+
+    const matches = matchRoutes(routeObjects, window.location) ?? [];
+    if (!matches.length) return; // Not a view (e.g. the 404 page): nothing to hydrate
+
+    for (const { route } of matches) {
+        if (!route.lazy) continue;
+        Object.assign(route, await route.lazy());
+        delete route.lazy;
+    }
+
+    const data = readLoaderData() ?? null;
+    const router = createBrowserRouter(routeObjects, {
+        hydrationData: { loaderData: Object.fromEntries(matches.map(({ route }) => [route.id, data])) },
+    });
+
+    hydrateRoot(document.getElementById('root')!, (
+        <UserContext.Provider value={readUser()}>
+            <CsrfTokenContext.Provider value={readCsrfToken()}>
+                <RouterProvider router={router} />
+            </CsrfTokenContext.Provider>
+        </UserContext.Provider>
+    ));
+}
@@ -0,0 +1,72 @@
+import path from "path";
+import { normalizePath, Plugin } from "vite";
+import { ERROR_VIEW, NOT_FOUND_VIEW } from "./View";
+
+/**
+ * URL of the generated client entry, used as the page's module script in development
+ * and as the Rollup input of the production build.
+ */
+export const CLIENT_ENTRY_ID = "/@movico/entry";
+
+const RESOLVED_CLIENT_ENTRY_ID = "\0movico-entry";
+
+/**
+ * File of the client build mapping each view module to the chunk it was bundled into, relative to the
+ * output folder. The Vite manifest lacks this when Rollup merges a view module into a shared chunk.
+ */
+export const VIEW_CHUNKS_FILE = ".vite/movico-views.json";
+
+/**
+ * Generates the client entry module from the discovered view sources.
+ *
+ * Each view module is imported dynamically, so Vite splits the client bundle per view file.
+ * The reserved error views are server-rendered only and left out.
+ *
+ * @param viewSources - The module (relative to the project root) each view path is exported from.
+ */
+export function generateClientEntry(viewSources: Record<string, string>): string {
+    const routes = Object.entries(viewSources).filter(([viewPath]) => viewPath !== NOT_FOUND_VIEW && viewPath !== ERROR_VIEW).map(([viewPath, source]) => {
+        const url = `/${source.split("\\").join("/")}`;
+        return `    { path: ${JSON.stringify(viewPath)}, load: () => import(${JSON.stringify(url)}) },`;
+    });
+
+    return `import { hydrateViews } from "/core/entry.tsx";\n\nhydrateViews([\n${routes.join("\n")}\n]);\n`;
+}
+
+/**
+ * Vite plugin serving the generated client entry as a virtual module at `CLIENT_ENTRY_ID`, and writing
+ * the `VIEW_CHUNKS_FILE` of client builds.
+ *
+ * The view sources are read when the module is loaded, so the object may be filled after the
+ * plugin is created (e.g. once `Discovery` has run).
+ *
+ * @param viewSources - The module each view path is exported from.
+ */
+export default function movicoPlugin(viewSources: Record<string, string>): Plugin {
+    let root = process.cwd();
+
+    return {
+        name: "movico",
+        configResolved(config) {
+            root = config.root;
+        },
+        resolveId(id) {
+            if (id === CLIENT_ENTRY_ID) return RESOLVED_CLIENT_ENTRY_ID;
+        },
+        load(id) {
+            if (id === RESOLVED_CLIENT_ENTRY_ID) return generateClientEntry(viewSources);
+        },
+        generateBundle(_, bundle) {
+            const sources = new Set(Object.values(viewSources).map(normalizePath));
+            const chunks: Record<string, string> = {};
+            for (const chunk of Object.values(bundle)) {
+                if (chunk.type !== "chunk") continue;
+                for (const id of chunk.moduleIds) {
+                    const source = normalizePath(path.relative(root, id));
+                    if (sources.has(source)) chunks[source] = chunk.fileName;
+                }
+            }
+            this.emitFile({ type: "asset", fileName: VIEW_CHUNKS_FILE, source: JSON.stringify(chunks, null, 2) });
+        },
+    };
+}
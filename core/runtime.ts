@@ -0,0 +1,9 @@
+/**
+ * The modules a server render shares with the views it renders.
+ *
+ * In development, views are loaded through `VDS` and resolve their own instances of these modules
+ * (Vite resolves the `development` export conditions), so `AppRouter` loads this module through `VDS`
+ * as well to render with matching instances.
+ */
+export { StaticRouter } from 'react-router-dom';
+export { CsrfTokenContext, LoaderDataContext, UserContext } from './View';
@@ -0,0 +1,42 @@
+import { build } from "vite";
+import { loadConfig } from "../Config";
+import { compressAssets } from "../Assets";
+import Discovery from "../Discovery";
+import movicoPlugin, { CLIENT_ENTRY_ID } from "../plugin";
+
+export interface BuildOptions {
+    root?: string;
+}
+
+/**
+ * Builds the production client bundle into the configured `dist` folder, with the `vite` settings of
+ * `movico.config.ts`.
+ *
+ * Views are discovered the same way the server discovers them at startup, so the generated client
+ * entry routes exactly the paths the server renders. The build writes a manifest, from which the server
+ * links the hashed files each view needs, and gzip and brotli variants of its files.
+ */
+export async function buildClient(options: BuildOptions = {}): Promise<void> {
+    const root = options.root ?? process.cwd();
+    const { vite, dist } = await loadConfig({ root, defaultEnvironment: "production" });
+    const { viewSources } = await new Discovery(root).discoverViews();
+    console.log(`[CLI]: Building client entry for ${Object.keys(viewSources).length} view path(s)`);
+
+    await build({
+        ...vite,
+        root,
+        plugins: [...(vite.plugins ?? []), movicoPlugin(viewSources)],
+        build: {
+            ...vite.build,
+            outDir: dist,
+            manifest: true,
+            rollupOptions: {
+                ...vite.build?.rollupOptions,
+                input: CLIENT_ENTRY_ID,
+            },
+        },
+    });
+
+    const variants = await compressAssets(dist);
+    console.log(`[CLI]: Wrote ${variants} precompressed file(s)`);
+}
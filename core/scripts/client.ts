@@ -0,0 +1,146 @@
+import fs from "fs-extra";
+import path from "path";
+import { OpenAPIDocument } from "../OpenAPI";
+import { JSONSchema } from "../Schema";
+import { generateOpenAPI, OpenAPIGenerateOptions } from "./openapi";
+
+export interface ClientWriteOptions extends OpenAPIGenerateOptions {
+    /**
+     * The module to write, relative to the root. Defaults to `_views/api.generated.ts`.
+     */
+    out?: string;
+    /**
+     * Fails instead of writing when the module on disk is out of date, e.g. in CI.
+     */
+    check?: boolean;
+    dryRun?: boolean;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Converts a JSON Schema produced by `Schema.toJSONSchema()` into a TypeScript type.
+ */
+function toType(schema: JSONSchema | undefined, indent = ""): string {
+    if (!schema) return "unknown";
+
+    if (Array.isArray(schema.enum)) return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+
+    switch (schema.type) {
+        case "string": return "string";
+        case "number":
+        case "integer": return "number";
+        case "boolean": return "boolean";
+        case "array": {
+            const item = toType(schema.items as JSONSchema, indent);
+            return /[|{]/.test(item) ? `Array<${item}>` : `${item}[]`;
+        }
+        case "object": {
+            const properties = Object.entries((schema.properties ?? {}) as Record<string, JSONSchema>);
+            if (!properties.length) return "Record<string, unknown>";
+
+            const required = new Set((schema.required ?? []) as string[]);
+            const members = properties.map(([key, property]) => {
+                const name = IDENTIFIER.test(key) ? key : JSON.stringify(key);
+                return `${indent}    ${name}${required.has(key) ? "" : "?"}: ${toType(property, `${indent}    `)};`;
+            });
+            return `{\n${members.join("\n")}\n${indent}}`;
+        }
+        default: return "unknown";
+    }
+}
+
+interface InputMember {
+    key: "params" | "query" | "headers" | "body";
+    type: string;
+    required: boolean;
+}
+
+/**
+ * Builds the input member of one request location from OpenAPI parameters.
+ */
+function toParametersMember(parameters: Record<string, any>[], location: string, key: InputMember["key"]): InputMember | undefined {
+    const fields = parameters.filter((parameter) => parameter.in === location);
+    if (!fields.length) return undefined;
+
+    const required = fields.filter((field) => field.required).map(({ name }) => name);
+    const type = toType({ type: "object", properties: Object.fromEntries(fields.map(({ name, schema }) => [name, schema])), required }, "    ");
+    return { key, type, required: required.length > 0 };
+}
+
+/**
+ * Generates the source of the typed client module for an OpenAPI document: one function per operation,
+ * named after its `operationId`, with typed input and output. Channels are left out; views connect to
+ * them with `useChannel()`.
+ *
+ * @param document - The OpenAPI document of the application's routes.
+ */
+export function generateClientModule(document: OpenAPIDocument): string {
+    const functions: string[] = [];
+
+    for (const [operationPath, methods] of Object.entries(document.paths)) {
+        for (const [method, operation] of Object.entries(methods as Record<string, Record<string, any>>)) {
+            if (operation["x-movico-channel"]) continue;
+
+            const name = String(operation.operationId).replace(/[^\w$]/g, "_");
+            const typeName = name.charAt(0).toUpperCase() + name.slice(1);
+            const parameters: Record<string, any>[] = operation.parameters ?? [];
+            const { requestBody } = operation;
+
+            const members = [
+                toParametersMember(parameters, "path", "params"),
+                toParametersMember(parameters, "query", "query"),
+                toParametersMember(parameters, "header", "headers"),
+                requestBody && { key: "body", type: toType(requestBody.content?.["application/json"]?.schema, "    "), required: Boolean(requestBody.required) },
+            ].filter((member): member is InputMember => Boolean(member));
+            const input = members.length
+                ? `{\n${members.map(({ key, type, required }) => `    ${key}${required ? "" : "?"}: ${type};`).join("\n")}\n}`
+                : "{}";
+
+            // The first documented 2xx response describes the output
+            const [status, response] = Object.entries(operation.responses ?? {}).find(([code]) => /^2\d\d$/.test(code)) ?? [];
+            const content = (response as Record<string, any> | undefined)?.content;
+            const output = status === "204" ? "void" : toType(content ? (Object.values(content)[0] as Record<string, any>).schema : undefined);
+
+            const summary = [operation.summary, operation.description].filter(Boolean).join("\n *\n * ");
+            functions.push(
+                `/**\n * ${summary ? `${summary}\n *\n * ` : ""}\`${method.toUpperCase()} ${operationPath}\`\n */\n`
+                + `export type ${typeName}Input = ${input};\n\n`
+                + `export type ${typeName}Output = ${output};\n\n`
+                + `export function ${name}(input: ${typeName}Input${members.some(({ required }) => required) ? "" : " = {}"}, init?: RequestInit): Promise<${typeName}Output> {\n`
+                + `    return request("${method}", ${JSON.stringify(operationPath)}, input, init);\n}`
+            );
+        }
+    }
+
+    return `// Generated by \`movico client\` from the application's routes. Do not edit; run the command again instead.\n`
+        + `import { request } from "@core/client";\n\n`
+        + `export { ApiError, useChannel, useMutation, useQuery } from "@core/client";\n\n`
+        + `${functions.join("\n\n")}\n`;
+}
+
+/**
+ * Writes the typed client module of the project's routes. Views importing it stop compiling when a
+ * route they call changes on the server and the module is generated again.
+ */
+export async function writeClient(options: ClientWriteOptions = {}): Promise<void> {
+    const root = options.root ?? process.cwd();
+    const document = await generateOpenAPI(options);
+    const file = path.resolve(root, options.out ?? "_views/api.generated.ts");
+    const content = generateClientModule(document);
+
+    if (options.check) {
+        const current = (await fs.pathExists(file)) ? await fs.readFile(file, "utf8") : undefined;
+        if (current !== content) throw new Error(`[CLI]: ${path.relative(root, file)} is out of date. Run "movico client" to update it.`);
+        console.log(`[CLI]: ${path.relative(root, file)} is up to date`);
+        return;
+    }
+
+    if (options.dryRun) {
+        console.log(`[CLI]: Would write ${path.relative(root, file)}:\n${content}`);
+        return;
+    }
+
+    await fs.outputFile(file, content);
+    console.log(`[CLI]: Wrote the API client to ${path.relative(root, file)}`);
+}
@@ -0,0 +1,55 @@
+import fs from "fs-extra";
+import path from "path";
+import { ScaffoldPlan, stripSuffix, toKebabCase } from "./utils";
+
+export interface CreateControllerOptions {
+    /**
+     * Name of the service the controller is typed against. Defaults to the service with the
+     * same base name when `_services/<Name>Service.ts` exists.
+     */
+    service?: string;
+    root?: string;
+}
+
+/**
+ * Builds the scaffold plan for a `Controller` subclass in `_controllers`.
+ *
+ * @param name - Controller name, with or without the `Controller` suffix.
+ * @param options - Optional service binding and project root.
+ */
+export async function createController(name: string, options: CreateControllerOptions = {}): Promise<ScaffoldPlan> {
+    const baseName = stripSuffix(name, "Controller");
+    if (!baseName) throw new Error(`[CLI]: Invalid controller name: "${name}"`);
+
+    const className = `${baseName}Controller`;
+    const root = options.root ?? process.cwd();
+
+    const serviceBase = options.service ? stripSuffix(options.service, "Service") : baseName;
+    const serviceName = `${serviceBase}Service`;
+    const hasService = Boolean(options.service) || (await fs.pathExists(path.resolve(root, "_services", `${serviceName}.ts`)));
+
+    const imports = [
+        `import Controller from "@core/Controller";`,
+        `import { Route } from "@core/types";`,
+        ...(hasService ? [`import ${serviceName} from "@services/${serviceName}";`] : []),
+    ];
+
+    const content = `${imports.join("\n")}
+
+export default class ${className} extends Controller${hasService ? `<${serviceName}>` : ""} {
+    routes: Route[] = [
+        {
+            method: "get",
+            path: "/api/${toKebabCase(baseName)}",
+            endpointFn: (_, res) => {
+                res.status(200).json({ controller: "${className}" });
+            },
+        },
+    ];
+}
+`;
+
+    return {
+        files: [{ path: `_controllers/${className}.ts`, content }],
+    };
+}
@@ -0,0 +1,31 @@
+import { ScaffoldPlan, stripSuffix } from "./utils";
+
+/**
+ * Builds the scaffold plan for a `Service` subclass in `_services`, with the abstract hooks stubbed.
+ *
+ * @param name - Service name, with or without the `Service` suffix.
+ */
+export function createService(name: string): ScaffoldPlan {
+    const baseName = stripSuffix(name, "Service");
+    if (!baseName) throw new Error(`[CLI]: Invalid service name: "${name}"`);
+
+    const className = `${baseName}Service`;
+    const propsName = `${baseName}Props`;
+
+    const content = `import Service from "@core/Service";
+
+export interface ${propsName} extends Record<string, any> {}
+
+export default class ${className} extends Service<${propsName}> {
+    protected onSet<PropKey extends keyof ${propsName}>(key: PropKey, value: ${propsName}[PropKey]): void {}
+
+    protected onRemove<PropKey extends keyof ${propsName}>(key: PropKey): void {}
+
+    protected onReset(): void {}
+}
+`;
+
+    return {
+        files: [{ path: `_services/${className}.ts`, content }],
+    };
+}
@@ -0,0 +1,26 @@
+import { ScaffoldPlan, toCamelCase, toKebabCase, toPascalCase } from "./utils";
+
+/**
+ * Builds the scaffold plan for a `ViewMap` module in `_views`.
+ *
+ * @param name - View name; also used for the route path (`user-profile` -> `/user-profile`).
+ */
+export function createView(name: string): ScaffoldPlan {
+    const fileName = toCamelCase(name);
+    if (!fileName) throw new Error(`[CLI]: Invalid view name: "${name}"`);
+
+    const exportName = `${fileName}View`;
+
+    const content = `import { ViewMap } from "@core/types";
+
+const ${exportName}: ViewMap = {
+    '/${toKebabCase(name)}': () => <div>${toPascalCase(name)} view</div>,
+};
+
+export { ${exportName} };
+`;
+
+    return {
+        files: [{ path: `_views/${fileName}.tsx`, content }],
+    };
+}
@@ -0,0 +1,110 @@
+import { buildClient } from "./build";
+import { writeOpenAPI } from "./openapi";
+import { writeClient } from "./client";
+import { createController } from "./create_controller";
+import { createService } from "./create_service";
+import { createView } from "./create_view";
+import { applyScaffold, ScaffoldPlan } from "./utils";
+import { Environment } from "../types";
+
+const usage = `Usage: movico <command> [options]
+
+Commands:
+  create controller <Name> [--service <Name>]   Create _controllers/<Name>Controller.ts
+  create service <Name>                         Create _services/<Name>Service.ts
+  create view <Name>                            Create _views/<name>.tsx
+  build                                         Build the client bundle for production into dist/
+  openapi [--out <file>] [--env <env>]          Write the OpenAPI document of all routes (default: openapi.json)
+  client [--out <file>] [--env <env>] [--check] Write the typed API client (default: _views/api.generated.ts)
+
+Options:
+  --dry-run   Print the files that would be written without touching the disk
+  --check     Fail if the generated client on disk is out of date instead of writing it
+  --help      Show this message`;
+
+interface ParsedArgs {
+    positionals: string[];
+    flags: Record<string, string | boolean>;
+}
+
+/**
+ * Splits argv into positionals and `--flag` / `--flag value` pairs.
+ */
+function parseArgs(argv: string[]): ParsedArgs {
+    const positionals: string[] = [];
+    const flags: Record<string, string | boolean> = {};
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (!arg.startsWith("--")) {
+            positionals.push(arg);
+            continue;
+        }
+
+        const [key, inline] = arg.slice(2).split("=", 2);
+        if (inline !== undefined) flags[key] = inline;
+        else if (argv[i + 1] !== undefined && !argv[i + 1].startsWith("--") && !["dry-run", "check", "help"].includes(key)) flags[key] = argv[++i];
+        else flags[key] = true;
+    }
+
+    return { positionals, flags };
+}
+
+async function main(argv: string[]): Promise<void> {
+    const { positionals, flags } = parseArgs(argv);
+    const [command, kind, name] = positionals;
+
+    if (flags.help || !command) {
+        console.log(usage);
+        return;
+    }
+
+    if (command === "build") {
+        await buildClient();
+        return;
+    }
+
+    if (command === "openapi") {
+        await writeOpenAPI({
+            out: typeof flags.out === "string" ? flags.out : undefined,
+            env: typeof flags.env === "string" ? flags.env as Environment : undefined,
+            dryRun: flags["dry-run"] === true,
+        });
+        return;
+    }
+
+    if (command === "client") {
+        await writeClient({
+            out: typeof flags.out === "string" ? flags.out : undefined,
+            env: typeof flags.env === "string" ? flags.env as Environment : undefined,
+            check: flags.check === true,
+            dryRun: flags["dry-run"] === true,
+        });
+        return;
+    }
+
+    if (command !== "create") throw new Error(`[CLI]: Unknown command: ${command}\n\n${usage}`);
+    if (!name) throw new Error(`[CLI]: Missing name for "create ${kind ?? ""}"\n\n${usage}`);
+
+    let plan: ScaffoldPlan;
+    switch (kind) {
+        case "controller":
+            plan = await createController(name, { service: typeof flags.service === "string" ? flags.service : undefined });
+            break;
+        case "service":
+            plan = createService(name);
+            break;
+        case "view":
+            plan = createView(name);
+            break;
+        default:
+            throw new Error(`[CLI]: Unknown artifact: ${kind}\n\n${usage}`);
+    }
+
+    await applyScaffold(plan, { dryRun: flags["dry-run"] === true });
+}
+
+main(process.argv.slice(2)).catch((error) => {
+    console.error((error as Error).message);
+    process.exit(1);
+});
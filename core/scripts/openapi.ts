@@ -0,0 +1,77 @@
+import express from "express";
+import fs from "fs-extra";
+import path from "path";
+import AuthService from "../Auth";
+import ConfigService, { ENVIRONMENTS, loadConfig } from "../Config";
+import Container from "../Container";
+import Discovery from "../Discovery";
+import SecurityService from "../Security";
+import { buildOpenAPIDocument, OpenAPIDocument, resolveOpenAPIOptions } from "../OpenAPI";
+import { Environment } from "../types";
+
+export interface OpenAPIGenerateOptions {
+    root?: string;
+    /**
+     * Only documents routes scoped to this environment. Routes of every environment are documented when unset.
+     */
+    env?: Environment;
+}
+
+export interface OpenAPIWriteOptions extends OpenAPIGenerateOptions {
+    /**
+     * The file to write, relative to the root. Defaults to `openapi.json`.
+     */
+    out?: string;
+    dryRun?: boolean;
+}
+
+/**
+ * Builds the OpenAPI document of the project's routes without starting the server.
+ *
+ * Controllers are discovered and created the same way the server creates them at startup, but their
+ * routes are not registered, so no middleware is set up and nothing listens.
+ */
+export async function generateOpenAPI(options: OpenAPIGenerateOptions = {}): Promise<OpenAPIDocument> {
+    const root = options.root ?? process.cwd();
+    const config = await loadConfig({ root });
+    const { controllers, services } = await new Discovery(root).discover();
+
+    const container = new Container();
+    container.provide(ConfigService, new ConfigService(config));
+    container.provide(AuthService, new AuthService(config.auth));
+    container.provide(SecurityService, new SecurityService(config.security));
+    for (const ServiceClass of services) container.register(ServiceClass);
+
+    const router = express.Router();
+    const environments: Environment[] = options.env ? [options.env] : [...ENVIRONMENTS];
+    const routes = [];
+    for (const { ControllerClass, service } of controllers) {
+        const controller = new ControllerClass({
+            router,
+            container,
+            service: service && container.lifetimeOf(service) !== "request" ? container.resolve(service) : undefined,
+        });
+        for (const route of await controller.resolveRoutes(environments)) routes.push({ controller: ControllerClass.name, route, roles: controller.accessOf(route) });
+    }
+
+    return buildOpenAPIDocument(routes, await resolveOpenAPIOptions(config.openapi, root));
+}
+
+/**
+ * Writes the OpenAPI document of the project's routes to disk, so changes to the API show up in reviews.
+ */
+export async function writeOpenAPI(options: OpenAPIWriteOptions = {}): Promise<void> {
+    const root = options.root ?? process.cwd();
+    const document = await generateOpenAPI(options);
+    const file = path.resolve(root, options.out ?? "openapi.json");
+    const content = `${JSON.stringify(document, null, 2)}\n`;
+
+    if (options.dryRun) {
+        console.log(`[CLI]: Would write ${path.relative(root, file)}:\n${content}`);
+        return;
+    }
+
+    await fs.outputFile(file, content);
+    const count = Object.values(document.paths).reduce((total, methods) => total + Object.keys(methods).length, 0);
+    console.log(`[CLI]: Wrote the OpenAPI document for ${count} route(s) to ${path.relative(root, file)}`);
+}
@@ -0,0 +1,94 @@
+import fs from "fs-extra";
+import path from "path";
+
+/**
+ * A single file the scaffolding generators want to create.
+ */
+export interface ScaffoldFile {
+    path: string;
+    content: string;
+}
+
+/**
+ * Everything a generator produces. Generated files need no further wiring: `Discovery`
+ * picks them up from `_controllers`, `_services` and `_views` at startup.
+ */
+export interface ScaffoldPlan {
+    files: ScaffoldFile[];
+}
+
+export interface ScaffoldOptions {
+    /**
+     * Print the plan instead of touching the file system.
+     */
+    dryRun?: boolean;
+    /**
+     * Project root the `_controllers`, `_services` and `_views` folders live in.
+     */
+    root?: string;
+}
+
+/**
+ * Converts `user-profile`, `user_profile` or `userProfile` into `UserProfile`.
+ */
+export function toPascalCase(name: string): string {
+    return name
+        .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+        .split(/[^a-zA-Z0-9]+/)
+        .filter(Boolean)
+        .map((part) => part[0].toUpperCase() + part.slice(1).toLowerCase())
+        .join("");
+}
+
+/**
+ * Converts a name into `userProfile`.
+ */
+export function toCamelCase(name: string): string {
+    const pascal = toPascalCase(name);
+    return pascal ? pascal[0].toLowerCase() + pascal.slice(1) : pascal;
+}
+
+/**
+ * Converts a name into `user-profile`.
+ */
+export function toKebabCase(name: string): string {
+    return toPascalCase(name).replace(/([a-z0-9])([A-Z])/g, "$1-$2").toLowerCase();
+}
+
+/**
+ * Strips a trailing suffix such as `Controller` or `Service` so `UsersController` and `Users`
+ * produce the same artifact names.
+ */
+export function stripSuffix(name: string, suffix: string): string {
+    const pascal = toPascalCase(name);
+    return pascal.endsWith(suffix) && pascal !== suffix ? pascal.slice(0, -suffix.length) : pascal;
+}
+
+/**
+ * Writes a scaffold plan to disk.
+ *
+ * - Refuses to overwrite any existing file; nothing is written if one of the targets exists.
+ * - With `dryRun`, only logs what would happen.
+ *
+ * @throws If one of the files in the plan already exists.
+ */
+export async function applyScaffold(plan: ScaffoldPlan, options: ScaffoldOptions = {}): Promise<void> {
+    const root = options.root ?? process.cwd();
+
+    for (const file of plan.files) {
+        const target = path.resolve(root, file.path);
+        if (await fs.pathExists(target)) {
+            throw new Error(`[CLI]: Refusing to overwrite existing file: ${file.path}`);
+        }
+    }
+
+    for (const file of plan.files) {
+        if (options.dryRun) {
+            console.log(`[CLI]: Would create ${file.path}:\n${file.content}`);
+            continue;
+        }
+
+        await fs.outputFile(path.resolve(root, file.path), file.content);
+        console.log(`[CLI]: Created ${file.path}`);
+    }
+}
@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { Server } from "node:http";
+import { after, before, describe, it } from "node:test";
+import Controller, { defineRoute } from "./Controller";
+import Service from "./Service";
+import { defineView } from "./View";
+import { createTestApp, TestApp } from "./testing";
+
+class GreetingService extends Service<{ greeting: string }> {
+    constructor() { super({ greeting: "Hello" }) }
+
+    protected onSet(): void { }
+
+    protected onRemove(): void { }
+
+    protected onReset(): void { }
+}
+
+class GreetingController extends Controller {
+    static inject = [GreetingService];
+    static shutdowns = 0;
+
+    routes = [defineRoute({
+        method: "get",
+        path: "/api/greeting",
+        endpointFn: (req, res) => { res.json({ greeting: this.resolve(GreetingService).getValue("greeting") }) },
+    })];
+
+    onShutdown() { GreetingController.shutdowns++ }
+}
+
+const greetingView = defineView({
+    loader: () => ({ name: "Ada" }),
+    component: ({ data }) => <h1>Hello, {data.name}</h1>,
+});
+
+describe("createTestApp", () => {
+    let app: TestApp;
+    let signalListeners: number;
+    let listens = 0;
+
+    before(async () => {
+        signalListeners = process.listenerCount("SIGINT") + process.listenerCount("SIGTERM");
+        const { listen } = Server.prototype;
+        Server.prototype.listen = function (this: Server, ...args: unknown[]) {
+            listens++;
+            return listen.apply(this, args as Parameters<Server["listen"]>);
+        } as Server["listen"];
+
+        const fake = new GreetingService();
+        fake.setValue("greeting", "Bonjour");
+        app = await createTestApp({
+            discover: false,
+            services: [GreetingService],
+            controllers: [GreetingController],
+            viewMap: { "/hello": greetingView },
+            overrides: (container) => container.override(GreetingService, fake),
+        }).finally(() => { Server.prototype.listen = listen });
+    });
+
+    after(() => app.close());
+
+    it("injects requests through the router stack with overridden services", async () => {
+        const response = await app.inject("/api/greeting");
+
+        assert.equal(response.status, 200);
+        assert.match(String(response.headers["x-request-id"]), /\S/);
+        assert.deepEqual(response.json(), { greeting: "Bonjour" });
+    });
+
+    it("answers unknown routes through the application error handler", async () => {
+        const response = await app.inject({ url: "/api/missing", headers: { accept: "application/json" } });
+
+        assert.equal(response.status, 404);
+        assert.equal(response.json().status, 404);
+    });
+
+    it("renders views with their loader data", async () => {
+        assert.match(await app.render("/hello"), /<h1>Hello, <!-- -->Ada<\/h1>/);
+    });
+
+    it("neither listens nor installs signal handlers", () => {
+        assert.equal(listens, 0);
+        assert.equal(process.listenerCount("SIGINT") + process.listenerCount("SIGTERM"), signalListeners);
+    });
+
+    it("runs the shutdown hooks once on close", async () => {
+        await app.close();
+        await app.close();
+
+        assert.equal(GreetingController.shutdowns, 1);
+        assert.equal((await app.inject("/readyz")).status, 503);
+    });
+});
@@ -0,0 +1,209 @@
+import { IncomingMessage, OutgoingHttpHeaders, ServerResponse } from "http";
+import { Socket } from "net";
+import { Request, RequestHandler, Response } from "express";
+import { ControllerConstructor, MovicoApplication, ServiceConstructor, StreamingOptions, ViewMap } from "./types";
+import { OpenAPIOptions } from "./OpenAPI";
+import Application from "./Application";
+import { ConfigOptions } from "./Config";
+import Container from "./Container";
+import Middleware from "./Middleware";
+
+export interface TestAppOptions {
+    /**
+     * Global middleware, as passed to `Application`.
+     */
+    middleware?: (RequestHandler | Middleware)[];
+    /**
+     * Whether to discover the project folders like `start()` does. Defaults to `true`.
+     */
+    discover?: boolean;
+    /**
+     * Services, controllers and views registered next to the discovered ones.
+     */
+    services?: ServiceConstructor[];
+    controllers?: ControllerConstructor[];
+    viewMap?: ViewMap;
+    /**
+     * Called with the container before the router stack is built, to replace services with fakes.
+     */
+    overrides?: (container: Container) => void;
+    streaming?: StreamingOptions;
+    openapi?: OpenAPIOptions;
+    /**
+     * Settings taking precedence over `movico.config.ts`. The environment is `test` unless `NODE_ENV` is set.
+     */
+    config?: ConfigOptions;
+}
+
+export interface InjectOptions {
+    /**
+     * Defaults to `GET`.
+     */
+    method?: string;
+    url: string;
+    /**
+     * Appended to the search of `url`. Arrays are sent as repeated parameters.
+     */
+    query?: Record<string, unknown>;
+    headers?: Record<string, string>;
+    /**
+     * Strings and buffers are sent as is, anything else as JSON.
+     */
+    body?: unknown;
+}
+
+export interface TestResponse {
+    status: number;
+    /**
+     * Response headers, with lowercase names.
+     */
+    headers: OutgoingHttpHeaders;
+    text: string;
+    /**
+     * Parses the body as JSON.
+     */
+    json<T = any>(): T;
+}
+
+export interface TestApp {
+    application: MovicoApplication;
+    container: Container;
+    /**
+     * Sends a request through the router stack in-process; no port is opened.
+     */
+    inject(options: InjectOptions | string): Promise<TestResponse>;
+    /**
+     * Renders a view route to its complete HTML, with every Suspense boundary resolved, e.g. for snapshots.
+     *
+     * @throws If the route does not answer with a 2xx status.
+     */
+    render(path: string, headers?: Record<string, string>): Promise<string>;
+    /**
+     * Runs the `onShutdown` hooks, flushes services and stops the VDS if a request started it. Nothing is
+     * left running afterwards.
+     */
+    close(): Promise<void>;
+}
+
+/**
+ * A user agent matching the bot pattern of the router, so views render completely before being sent.
+ */
+const RENDER_USER_AGENT = "MovicoTestBot";
+
+/**
+ * Builds the request of an injection. The socket is never connected, so nothing reaches the network.
+ */
+function toRequest({ method = "GET", url, query = {}, headers = {}, body }: InjectOptions): IncomingMessage {
+    const target = new URL(url, "http://localhost");
+    for (const [key, value] of Object.entries(query)) {
+        for (const item of Array.isArray(value) ? value : [value]) {
+            if (item !== undefined && item !== null) target.searchParams.append(key, String(item));
+        }
+    }
+
+    const req = new IncomingMessage(new Socket());
+    req.method = method.toUpperCase();
+    req.url = `${target.pathname}${target.search}`;
+    req.headers = { host: "localhost", ...Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])) };
+
+    if (body !== undefined) {
+        const payload = typeof body === "string" || Buffer.isBuffer(body) ? Buffer.from(body) : Buffer.from(JSON.stringify(body));
+        req.headers["content-type"] ??= typeof body === "string" || Buffer.isBuffer(body) ? "text/plain" : "application/json";
+        req.headers["content-length"] = String(payload.length);
+        req.push(payload);
+    }
+    req.push(null);
+    req.complete = true;
+    req.rawHeaders = Object.entries(req.headers).flatMap(([name, value]) => [name, String(value)]);
+
+    return req;
+}
+
+/**
+ * Sends a request through an Express application and collects the response in memory.
+ */
+function inject(application: MovicoApplication, options: InjectOptions): Promise<TestResponse> {
+    return new Promise((resolve, reject) => {
+        const req = toRequest(options);
+        const res = new ServerResponse(req);
+        const chunks: Buffer[] = [];
+
+        const collect = (chunk: unknown, encoding?: unknown) => {
+            if (chunk === undefined || chunk === null || typeof chunk === "function") return;
+            chunks.push(typeof chunk === "string" ? Buffer.from(chunk, typeof encoding === "string" ? encoding as BufferEncoding : "utf8") : Buffer.from(chunk as Uint8Array));
+        };
+
+        // Writes are captured instead of going to a socket
+        Object.assign(res, {
+            write(chunk: unknown, encoding?: unknown, callback?: () => void) {
+                if (!res.headersSent) res.writeHead(res.statusCode);
+                collect(chunk, encoding);
+                [encoding, callback].find((argument) => typeof argument === "function")?.call(undefined);
+                return true;
+            },
+            end(chunk?: unknown, encoding?: unknown, callback?: () => void) {
+                if (res.writableEnded) return res;
+                if (!res.headersSent) res.writeHead(res.statusCode);
+                collect(chunk, encoding);
+                res.finished = true;
+
+                const text = Buffer.concat(chunks).toString("utf8");
+                resolve({ status: res.statusCode, headers: res.getHeaders(), text, json: () => JSON.parse(text) });
+
+                res.emit("finish");
+                res.emit("close");
+                [chunk, encoding, callback].find((argument) => typeof argument === "function")?.call(undefined);
+                return res;
+            },
+        });
+
+        // The request and response are the ones Node would pass; Express adds its members to them itself
+        try {
+            application(req as unknown as Request, res as unknown as Response, (error?: unknown) => reject(error ?? new Error(`[Testing]: No route handled ${req.method} ${req.url}`)));
+        } catch (error) {
+            reject(error);
+        }
+    });
+}
+
+/**
+ * Creates an application for integration tests.
+ *
+ * It builds the same router stack as `Application.start()` and runs the same lifecycle hooks, but never
+ * listens on a port or installs process handlers. Requests are injected in-process and responses
+ * collected in memory.
+ *
+ * Example:
+ * ```typescript
+ * const app = await createTestApp({ overrides: (container) => container.override(UsersService, new FakeUsersService()) });
+ * try {
+ *     const response = await app.inject({ method: 'post', url: '/api/users', body: { name: 'Ada' } });
+ *     assert.equal(response.status, 201);
+ *     assert.equal(response.json().name, 'Ada');
+ *     assert.match(await app.render('/users/1'), /Ada/);
+ * } finally {
+ *     await app.close();
+ * }
+ * ```
+ */
+export async function createTestApp(options: TestAppOptions = {}): Promise<TestApp> {
+    const app = new Application(options.middleware, undefined, options.streaming, options.openapi);
+    app.register(options);
+    if (options.config) app.configure(options.config);
+    options.overrides?.(app.getContainer());
+
+    const application = await app.build({ discover: options.discover, defaultEnvironment: "test" });
+    await app.ready();
+
+    return {
+        application,
+        container: app.getContainer(),
+        inject: (request) => inject(application, typeof request === "string" ? { url: request } : request),
+        render: async (path, headers = {}) => {
+            const response = await inject(application, { url: path, headers: { accept: "text/html", "user-agent": RENDER_USER_AGENT, ...headers } });
+            if (response.status < 200 || response.status >= 300) throw new Error(`[Testing]: Rendering ${path} answered with status ${response.status}.`);
+            return response.text;
+        },
+        close: () => app.close(),
+    };
+}
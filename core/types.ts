@@ -3,6 +3,13 @@ import Service from "./Service";
 import Controller from "./Controller";
 import { InlineConfig } from "vite";
 import { ComponentType, ReactNode } from "react";
+import { IncomingHttpHeaders } from "http";
+import { ObjectSchema, Schema } from "./Schema";
+import { VIEW_RESULT } from "./View";
+import Middleware from "./Middleware";
+import Container from "./Container";
+import { OpenAPIOptions } from "./OpenAPI";
+import { PersistenceOptions } from "./Persistence";
 
 export interface MovicoApplication extends Application {
     response: Response;
@@ -10,33 +17,453 @@ export interface MovicoApplication extends Application {
 }
 
 export type RequestMethod = ('get' | 'post' | 'put' | 'patch' | 'delete' | 'options') & keyof Router;
-export type Environment = 'development' | 'production';
+export type Environment = 'development' | 'production' | 'test';
 
 export type EndpointFunction = (request: Request, response: Response, next: NextFunction) => void | Promise<void>;
 
-export interface Route {
+export type RequestLocation = 'params' | 'query' | 'body' | 'headers';
+
+/**
+ * A single failed check, as reported in the body of a 400 (request) or 422 (service) response.
+ */
+export interface ValidationIssue {
+    /**
+     * The part of the request the value came from, `service` for `Service` properties, or `env` for
+     * environment variables checked at startup.
+     */
+    location: RequestLocation | 'service' | 'env';
+    path: string;
+    message: string;
+    /**
+     * The name of the failing `Service` rule: `schema`, a validator or a cross-field rule.
+     */
+    rule?: string;
+}
+
+/**
+ * An authenticated user, as returned by an `AuthStrategy`. Other claims are kept as given; they are
+ * signed into session cookies and tokens, and sent to the client for `useUser()`, so keep them small
+ * and free of secrets.
+ */
+export interface AuthUser {
+    id: string;
+    roles?: string[];
+    [claim: string]: unknown;
+}
+
+/**
+ * Declarative schemas for the parts of a request a route accepts.
+ * Header names are declared in lowercase.
+ */
+export interface RouteSchema {
+    params?: ObjectSchema<any>;
+    query?: ObjectSchema<any>;
+    body?: Schema<any>;
+    headers?: ObjectSchema<any>;
+}
+
+/**
+ * The validated and coerced request input passed to `endpointFn`.
+ * Locations without a schema keep their raw Express types.
+ */
+export interface RouteInput<TSchema extends RouteSchema = RouteSchema> {
+    params: TSchema extends { params: Schema<infer Output> } ? Output : Request['params'];
+    query: TSchema extends { query: Schema<infer Output> } ? Output : Request['query'];
+    body: TSchema extends { body: Schema<infer Output> } ? Output : unknown;
+    headers: TSchema extends { headers: Schema<infer Output> } ? Output : IncomingHttpHeaders;
+    /**
+     * The authenticated user, if any.
+     */
+    user?: AuthUser;
+}
+
+export interface Route<TSchema extends RouteSchema = RouteSchema> {
     method: RequestMethod;
     path: string;
 
+    /**
+     * Handles errors thrown by `endpointFn` or raised by validation. Errors it does not answer
+     * are forwarded to the application error handler.
+     */
     errorFn?: (error: unknown, request: Request, response: Response, next: NextFunction) => void | Promise<void>;
     validationFn?: (req: Request) => void | Promise<void>;
     shouldRegister?: () => boolean | Promise<boolean>;
-    endpointFn: EndpointFunction;
+    schema?: TSchema;
+    endpointFn(request: Request, response: Response, next: NextFunction, input: RouteInput<TSchema>): void | Promise<void>;
 
     handlers?: (RequestHandler | Promise<RequestHandler>)[];
+    /**
+     * Middleware run before this route's handlers, after the controller's middleware.
+     */
+    middleware?: Middleware[];
+
+    /**
+     * Whether the route requires an authenticated user; requests without one are answered with a 401.
+     * Defaults to the controller's `auth`, and to `true` when `roles` is set. `false` opts the route out
+     * of the controller's `auth` and `roles`.
+     */
+    auth?: boolean;
+    /**
+     * Roles of which the user needs one; others are answered with a 403. Replaces the controller's `roles`.
+     */
+    roles?: string[];
+
+    /**
+     * Whether `post`, `put`, `patch` and `delete` requests must carry the CSRF token issued to rendered
+     * views. Defaults to `true`; turn it off for webhooks and other callers that are not browsers.
+     */
+    csrf?: boolean;
+    /**
+     * Limits how often a client may call the route. Responses carry the `RateLimit-*` headers.
+     */
+    rateLimit?: RateLimitOptions;
 
     envScope?: Environment;
+
+    /**
+     * Short summary of the route in the OpenAPI document.
+     */
+    summary?: string;
+    description?: string;
+    /**
+     * Groups the route in the OpenAPI document. Defaults to the controller name without its `Controller` suffix.
+     */
+    tags?: string[];
+    /**
+     * Unique name of the operation in the OpenAPI document. Derived from the method and path when unset.
+     */
+    operationId?: string;
+    /**
+     * Documented responses by status code. Defaults to a plain `200` response.
+     */
+    responses?: Record<number, RouteResponse>;
+    /**
+     * Set on the routes of channels: documented as `x-movico-channel` and left out of the generated client.
+     */
+    channel?: ChannelTransport;
 }
 
-export interface ControllerInit<TargetService extends Service> {
+/**
+ * How clients connect to a `Channel`: Server-Sent Events over a long-lived `GET` response, or a WebSocket.
+ */
+export type ChannelTransport = 'sse' | 'websocket';
+
+/**
+ * A message of a `Channel`, as received by clients. Broadcasts have an id, `<epoch>-<n>`, so clients can
+ * resume after reconnecting; messages sent to a single client do not.
+ */
+export interface ChannelMessage<Data = unknown> {
+    id?: string;
+    data: Data;
+}
+
+/**
+ * A per-route rate limit: at most `limit` requests per client in every `window`. Further requests are
+ * answered with a 429 until the window ends.
+ */
+export interface RateLimitOptions {
+    limit: number;
+    /**
+     * Length of the window in milliseconds.
+     */
+    window: number;
+    /**
+     * Identifies the client. Defaults to the authenticated user's id, or `req.ip` for anonymous requests.
+     *
+     * Behind a reverse proxy or load balancer, `req.ip` is the proxy's address unless Express's `trust proxy`
+     * setting is configured, e.g. `(await app.build()).set('trust proxy', 1)` before `app.start()` for a single
+     * proxy; otherwise every anonymous client shares one counter. Set `key` instead when the client address
+     * comes from another header.
+     */
+    key?: (req: Request) => string;
+}
+
+/**
+ * A documented response of a `Route`.
+ */
+export interface RouteResponse {
+    description?: string;
+    schema?: Schema<any>;
+    /**
+     * Defaults to `application/json`.
+     */
+    contentType?: string;
+}
+
+/**
+ * What became of a `Route` when its controller registered: the reason it was skipped, or the handler chain it runs.
+ */
+export interface RouteReport {
+    method: string;
+    path: string;
+    envScope?: Environment;
+    status: 'registered' | 'skipped';
+    reason?: string;
+    /**
+     * Handler names in the order they run, from global middleware to the endpoint.
+     */
+    chain: string[];
+}
+
+export interface ControllerInit<TargetService extends Service<any>> {
     service?: TargetService;
     router: Router;
+    /**
+     * The container the controller resolves its injected services from.
+     */
+    container?: Container;
+}
+
+/**
+ * How long a service instance lives: for the whole application, for a single resolution, or for a single request.
+ */
+export type Lifetime = 'singleton' | 'transient' | 'request';
+
+export type ServiceConstructor<TargetService extends Service<any> = Service<any>> = (new (...args: any[]) => TargetService) & {
+    inject?: ServiceConstructor[];
+    lifetime?: Lifetime;
+    persistence?: PersistenceOptions;
+};
+export type ControllerConstructor<TargetService extends Service<any> = Service<any>> = (new (init: ControllerInit<TargetService>) => Controller<TargetService>) & {
+    inject?: ServiceConstructor[];
+};
+
+/**
+ * A single change to the properties of a `Service`.
+ */
+export type ServiceChange<ServiceProps extends Record<string, any> = Record<string, any>> =
+    | { type: 'set'; key: keyof ServiceProps; value: unknown; previous: unknown }
+    | { type: 'remove'; key: keyof ServiceProps; previous: unknown }
+    | { type: 'reset'; value: Partial<ServiceProps>; previous: ServiceProps };
+
+/**
+ * Outcome of a `Service` validator or rule: `false` or a message fails it, `true` or nothing passes it.
+ */
+export type ValidationResult = boolean | string | void;
+
+/**
+ * Checks the new value of a `Service` property against the properties it would be stored with.
+ */
+export type PropertyValidator<Value = any, ServiceProps extends Record<string, any> = Record<string, any>> =
+    (value: Value, properties: ServiceProps) => ValidationResult | Promise<ValidationResult>;
+
+/**
+ * Checks several `Service` properties together, e.g. that `start` comes before `end`.
+ */
+export type PropertyRule<ServiceProps extends Record<string, any> = Record<string, any>> =
+    (properties: ServiceProps) => ValidationResult | Promise<ValidationResult>;
+
+/**
+ * Called once per update (a single change, a transaction, an undo or a redo) with the changes it made.
+ */
+export type ServiceListener<ServiceProps extends Record<string, any> = Record<string, any>> = (changes: ServiceChange<ServiceProps>[]) => void;
+
+/**
+ * A discovered controller class and the service sharing its base name, if any.
+ */
+export interface ControllerRegistration {
+    ControllerClass: ControllerConstructor;
+    service?: ServiceConstructor;
 }
 
 export interface RouterInit {
     customVDSConfig?: InlineConfig;
-    controllers: Controller[];
+    /**
+     * Global middleware, run before every route and view.
+     */
+    middleware?: Middleware[];
+    controllers: ControllerRegistration[];
     viewMap: ViewMap;
+    /**
+     * The module each view path is exported from, used to reload views through `VDS` in development.
+     */
+    viewSources?: Record<string, string>;
+    streaming?: StreamingOptions;
+    /**
+     * Service classes registered in the container, available to controllers and view loaders.
+     */
+    services?: ServiceConstructor[];
+    /**
+     * The dependency injection container. Bindings overridden on it before startup take precedence.
+     */
+    container?: Container;
+    /**
+     * Options of the OpenAPI document and docs page generated from the registered routes.
+     */
+    openapi?: OpenAPIOptions;
+    /**
+     * The HTML page views render into. Must contain `<div id="root"></div>`; the client entry script is added before `</body>`.
+     */
+    template?: string;
+    /**
+     * Absolute path of the production client bundle. Defaults to `dist` in the working directory.
+     */
+    dist?: string;
+    shutdown?: ShutdownOptions;
+}
+
+export interface ShutdownOptions {
+    /**
+     * Milliseconds the readiness probe fails before the server stops accepting connections, so load
+     * balancers stop routing to the instance first. Defaults to `0`.
+     */
+    delay?: number;
+    /**
+     * Milliseconds to wait for in-flight requests once shutdown starts. Connections still open
+     * afterwards are closed forcibly. Defaults to `10000`.
+     */
+    timeout?: number;
+}
+
+/**
+ * Where the application is in its lifecycle, as reported by the health endpoints.
+ */
+export type LifecycleState = 'starting' | 'ready' | 'draining' | 'stopped';
+
+/**
+ * Hooks services and controllers can implement. Singleton services run first, dependencies before their
+ * dependents, then controllers in registration order; `onShutdown` runs in the reverse order.
+ */
+export interface LifecycleHooks {
+    /**
+     * Runs once the routes are registered, before the server accepts requests. A failure aborts startup.
+     */
+    onInit?(): void | Promise<void>;
+    /**
+     * Runs once the server accepts requests, before the application reports ready.
+     */
+    onReady?(): void | Promise<void>;
+    /**
+     * Runs once in-flight requests have drained, before service properties are flushed. Failures are
+     * logged and do not stop the other hooks.
+     */
+    onShutdown?(): void | Promise<void>;
+}
+
+export interface StreamingOptions {
+    /**
+     * Whether views stream by default. A view's own `stream` flag takes precedence. Defaults to `true`.
+     */
+    enabled?: boolean;
+    /**
+     * Milliseconds after which a streaming render is aborted and the remaining
+     * Suspense boundaries fall back to client rendering. Defaults to `10000`.
+     */
+    timeout?: number;
+}
+
+export interface RedirectResult {
+    [VIEW_RESULT]: 'redirect';
+    location: string;
+    status: number;
+}
+
+export interface NotFoundResult {
+    [VIEW_RESULT]: 'notFound';
+}
+
+export type LoaderResult<Data> = Data | RedirectResult | NotFoundResult;
+
+/**
+ * What a view loader can use besides the request.
+ */
+export interface LoaderContext {
+    /**
+     * Resolves a service from the container, scoped to the current request.
+     *
+     * @throws If the service is not registered.
+     */
+    service<TargetService extends Service<any>>(ServiceClass: ServiceConstructor<TargetService>): TargetService;
+    /**
+     * The authenticated user, if any.
+     */
+    user?: AuthUser;
+}
+
+/**
+ * Fetches a view's data on the server before it renders.
+ * Return `redirect()` or `notFound()` to answer the request without rendering.
+ */
+export type ViewLoader<Data = unknown> = (request: Request, context: LoaderContext) => LoaderResult<Data> | Promise<LoaderResult<Data>>;
+
+/**
+ * Attributes of a `<meta>` or `<link>` tag, e.g. `{ name: 'robots', content: 'noindex' }`.
+ */
+export type HeadAttributes = Record<string, string>;
+
+/**
+ * The document head of a view. Values not set keep those of the page template.
+ */
+export interface HeadTags {
+    title?: string;
+    /**
+     * Shorthand for `<meta name="description">`.
+     */
+    description?: string;
+    /**
+     * The `lang` attribute of `<html>`.
+     */
+    lang?: string;
+    /**
+     * The `dir` attribute of `<html>`.
+     */
+    dir?: 'ltr' | 'rtl' | 'auto';
+    meta?: HeadAttributes[];
+    link?: HeadAttributes[];
+    /**
+     * OpenGraph properties, written as `<meta property="og:...">`. Camel-cased keys are snake-cased,
+     * e.g. `siteName` becomes `og:site_name`.
+     */
+    openGraph?: {
+        title?: string;
+        description?: string;
+        type?: string;
+        url?: string;
+        image?: string;
+        siteName?: string;
+        locale?: string;
+        [property: string]: string | undefined;
+    };
+}
+
+/**
+ * A view's head: fixed tags, or a function of the loader data.
+ */
+export type ViewHead<Data = any> = HeadTags | ((data: Data) => HeadTags);
+
+export interface ViewProps<Data = any> {
+    data: Data;
 }
 
-export type ViewMap = Record<string, ComponentType>;
\ No newline at end of file
+/**
+ * A view with rendering options. A bare component is equivalent to `{ component }`.
+ */
+export interface ViewDefinition<Data = any> {
+    component: ComponentType<ViewProps<Data>>;
+    /**
+     * Loads the data passed to the component as its `data` prop and through `useLoaderData()`.
+     */
+    loader?: ViewLoader<Data>;
+    /**
+     * Opts the view in or out of streaming SSR, overriding `StreamingOptions.enabled`.
+     */
+    stream?: boolean;
+    /**
+     * The title, meta and link tags of the page. Rendered into the page on the server and applied
+     * to the document on client-side navigation.
+     */
+    head?: ViewHead<Data>;
+    /**
+     * Whether the view requires an authenticated user. Page requests without one are redirected to the
+     * login view, with the original URL in the `next` query parameter. Defaults to `true` when `roles` is set.
+     */
+    auth?: boolean;
+    /**
+     * Roles of which the user needs one; others get a 403.
+     */
+    roles?: string[];
+}
+
+export type ViewEntry = ComponentType<any> | ViewDefinition;
+
+export type ViewMap = Record<string, ViewEntry>;
\ No newline at end of file